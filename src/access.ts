@@ -0,0 +1,52 @@
+import type { JwtClaims } from './jwt'
+import type { AccessRule } from './types'
+
+/**
+ * Extrator padrão: lê `key` do usuário e, se ausente, dos claims do token
+ * @param key - Nome do campo (ex: 'roles', 'permissions')
+ * @returns Função extratora
+ */
+export function createDefaultExtractor(key: string) {
+  return (user: unknown, claims: JwtClaims | null): string[] => {
+    const fromUser =
+      user && typeof user === 'object'
+        ? (user as Record<string, unknown>)[key]
+        : undefined
+    return toList(fromUser ?? claims?.[key])
+  }
+}
+
+/**
+ * Verifica se a lista concedida satisfaz a regra
+ *
+ * - `'admin'` ou `['admin', 'staff']`: basta um deles (any-of)
+ * - `{ all: ['a', 'b'] }`: exige todos
+ * - `{ any: [...], all: [...] }`: exige as duas condições
+ *
+ * @param granted - Roles/permissões do usuário
+ * @param rule - Regra exigida
+ * @returns true se a regra for satisfeita
+ */
+export function matchesRule(granted: string[], rule: AccessRule): boolean {
+  if (typeof rule === 'string') return granted.includes(rule)
+  if (Array.isArray(rule)) {
+    return rule.length === 0 || rule.some((item) => granted.includes(item))
+  }
+
+  const { any, all } = rule
+  const anyOk =
+    !any || any.length === 0 || any.some((item) => granted.includes(item))
+  const allOk = !all || all.every((item) => granted.includes(item))
+  return anyOk && allOk
+}
+
+/**
+ * Normaliza o valor extraído para uma lista de strings
+ */
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String)
+  if (typeof value === 'string') {
+    return value.split(/[\s,]+/).filter(Boolean)
+  }
+  return []
+}
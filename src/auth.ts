@@ -1,32 +1,55 @@
-import { ref, computed, type ComputedRef, type Ref } from 'vue'
+import {
+  ref,
+  shallowRef,
+  computed,
+  watch,
+  type ComputedRef,
+  type Ref,
+} from 'vue'
 import type { AxiosInstance, AxiosError } from 'axios'
 import type { Router } from 'vue-router'
-import { sleep } from './utils'
+import { sleep, isPromiseLike, isBrowser } from './utils'
+import { createRefreshScheduler } from './scheduler'
+import { createTabSync, type SyncMessage } from './sync'
+import { decodeJwt } from './jwt'
+import { createDefaultExtractor, matchesRule } from './access'
+import {
+  localStorageAdapter,
+  sessionStorageAdapter,
+  memoryStorageAdapter,
+} from './storage'
+import { createEmitter } from './events'
+import { createLogger } from './logger'
+import { createOAuthClient, OAuthError } from './oauth'
+import { createIdleTracker } from './idle'
+import { createRetryPolicy, sleepUnlessOffline, RefreshError } from './retry'
+import { createNetworkStatus, isNetworkError, isOffline } from './network'
+import { createTokenExtractor, createUserExtractor } from './extract'
+import { createReturnTo, isExternalUrl } from './redirect'
 import type {
-  AuthStorage,
+  AccessRule,
   AuthEndpoints,
   AuthCoreOptions,
+  AuthEventMap,
   AuthInstance,
+  AuthResponse,
+  AuthSnapshot,
+  AuthStorage,
+  ImpersonationFrame,
+  LoginChallenge,
   LoginCredentials,
+  LoginOptions,
   LoginResult,
   LoginResponse,
+  LogoutOptions,
+  MaybePromise,
+  OAuthRedirectOptions,
   RefreshResponse,
+  SessionExpiredReason,
   User,
+  UserCacheOptions,
 } from './types'
 
-/**
- * Storage padrão usando localStorage
- */
-const defaultStorage: AuthStorage = {
-  getToken: () => localStorage.getItem('token'),
-  setToken: (token: string) => localStorage.setItem('token', token),
-  removeToken: () => localStorage.removeItem('token'),
-  getRefreshToken: () => localStorage.getItem('refresh_token'),
-  setRefreshToken: (token: string) =>
-    localStorage.setItem('refresh_token', token),
-  removeRefreshToken: () => localStorage.removeItem('refresh_token'),
-}
-
 /**
  * Cria a lógica de autenticação
  * @param http - Axios instance
@@ -52,131 +75,688 @@ export function createAuthCore<T = User>(
   options: AuthCoreOptions<T> = {}
 ): AuthInstance<T> {
   const {
-    endpoints = {
-      login: '/token/',
-      refresh: '/token/refresh/',
-      user: '/contexto-inicial/',
-    },
-    storage = defaultStorage,
+    name = 'default',
+    mode = 'token',
+    // No servidor não há localStorage: use requestCookieStorage no SSR
+    storage = isBrowser() ? localStorageAdapter() : memoryStorageAdapter(),
+    sessionOnlyStorage = isBrowser()
+      ? sessionStorageAdapter()
+      : memoryStorageAdapter(),
+    rememberByDefault = true,
     tokenKey = 'token',
     refreshTokenKey = 'refresh',
     maxRetries = 3,
+    retryPolicy: retryPolicyOptions,
+    offline: { queueTimeout = 30000 } = {},
+    logoutTimeout = 5000,
+    autoRefresh = false,
+    refreshLeeway = 30,
+    syncTabs = true,
+    syncChannel = 'vue-auth',
+    logger = createLogger(),
+    onSessionExpired,
     onError,
     onLogin,
     onLogout,
     onFetchUser,
     loginRouteName = 'login',
+    defaultRedirect = '/',
+    returnTo: returnToOptions,
+    getRoles = createDefaultExtractor('roles'),
+    getPermissions = createDefaultExtractor('permissions'),
+    detectChallenge = defaultDetectChallenge,
+    initialState,
+    idle,
+    userCache,
   } = options
 
-  // State
-  const token: Ref<string | null> = ref(storage.getToken?.() || null)
-  const refreshToken: Ref<string | null> = ref(
-    storage.getRefreshToken?.() || null
+  const endpoints: AuthEndpoints = {
+    login: '/token/',
+    refresh: '/token/refresh/',
+    user: '/contexto-inicial/',
+    verifyChallenge: '/token/verify/',
+    resendChallenge: '/token/resend/',
+    ...options.endpoints,
+  }
+
+  // Mapeamento das respostas de login/refresh e do endpoint `user`
+  const extractTokens = createTokenExtractor(options.extractTokens, {
+    tokenKey,
+    refreshTokenKey,
+  })
+  const extractUser = createUserExtractor<T>(options.extractUser)
+
+  // Backoff e classificação dos erros do refresh
+  const policy = createRetryPolicy(retryPolicyOptions, maxRetries)
+
+  // Estado da conexão (falhas de rede não encerram a sessão)
+  const network = createNetworkStatus()
+
+  /**
+   * Verifica se a falha foi de conexão, direta ou vinda do refresh
+   */
+  const isConnectionFailure = (error: unknown): boolean =>
+    isNetworkError(error) ||
+    (error instanceof RefreshError && error.reason === 'network')
+
+  // Destino pós-login, validado contra open redirect
+  const returnTo = createReturnTo({
+    ...returnToOptions,
+    exclude: (path) => router.resolve(path).name === loginRouteName,
+  })
+
+  // Eventos (os callbacks das opções são registrados como handlers)
+  const events = createEmitter<AuthEventMap<T>>((event, error) =>
+    logger.error('Erro no handler de evento', { event, error })
   )
+  if (onLogin) events.on('login', ({ user }) => onLogin(user))
+  if (onLogout) events.on('logout', onLogout)
+  if (onFetchUser) events.on('userFetched', ({ user }) => onFetchUser(user))
+  if (onError) {
+    events.on('error', ({ message, error }) => onError(message, error))
+  }
+
+  // State
+  const token: Ref<string | null> = ref(null)
+  const refreshToken: Ref<string | null> = ref(null)
+  // Expiração informada pela resposta (ex: `expires_in`), em ms
+  const tokenExpiresAt: Ref<number | null> = ref(null)
+  // Com estado serializado pelo servidor (SSR), o cliente já começa pronto
   const user: Ref<T | null> = ref(null)
-  const loading: Ref<boolean> = ref(true)
-  const authenticated: Ref<boolean> = ref(false)
+  const loading: Ref<boolean> = ref(!initialState)
+  const authenticated: Ref<boolean> = ref(!!initialState?.authenticated)
+  let pendingInitialState = !!initialState
+  if (initialState) {
+    user.value = initialState.user
+  }
+  const oauthClient = options.oauth
+    ? createOAuthClient(http, options.oauth)
+    : null
+  const challenge: Ref<LoginChallenge | null> = ref(null)
+  // "Lembrar de mim" do login que gerou o desafio pendente
+  let challengeRemember = rememberByDefault
 
   // Computed
   const isAuthenticated: ComputedRef<boolean> = computed(
     () => authenticated.value
   )
+  const claims = computed(() => decodeJwt(token.value))
+  const expiresAt: ComputedRef<number | null> = computed(() => {
+    if (tokenExpiresAt.value !== null) return tokenExpiresAt.value
+    const exp = claims.value?.exp
+    return typeof exp === 'number' ? exp * 1000 : null
+  })
+  const roles: ComputedRef<string[]> = computed(() =>
+    authenticated.value ? getRoles(user.value, claims.value) : []
+  )
+  const permissions: ComputedRef<string[]> = computed(() =>
+    authenticated.value ? getPermissions(user.value, claims.value) : []
+  )
+
+  // No modo `cookie` a sessão fica no cookie HttpOnly: nada vai ao storage
+  const cookieMode = mode === 'cookie'
+
+  // Sessões salvas pela impersonação (a última é a mais recente)
+  const impersonationStack: Ref<ImpersonationFrame<T>[]> = shallowRef([])
+
+  // Cache do usuário (opt-in), salvo junto aos tokens
+  const cacheUser = !!userCache && !cookieMode
+  const {
+    key: userCacheKey = 'user',
+    version: userCacheVersion = 1,
+    maxAge: userCacheMaxAge = 24 * 60 * 60 * 1000,
+  }: UserCacheOptions = typeof userCache === 'object' ? userCache : {}
+  // Usuário lido do cache na hidratação, consumido pelo initialize
+  let cachedUser: T | null = null
+
+  // Hidratação dos tokens: imediata para storages síncronos; para storages
+  // assíncronos, o initialize aguarda a leitura terminar
+  let tokensChanged = false
+  const applyStoredTokens = ([
+    stored,
+    storedRefresh,
+    storedExpiresAt,
+    storedStack,
+    storedUser,
+  ]: (string | null | undefined)[]): void => {
+    if (tokensChanged) return
+    token.value = stored || null
+    refreshToken.value = storedRefresh || null
+    tokenExpiresAt.value = parseExpiresAt(storedExpiresAt)
+    impersonationStack.value = parseImpersonationStack<T>(storedStack)
+    cachedUser = parseCachedUser<T>(storedUser, {
+      version: userCacheVersion,
+      maxAge: userCacheMaxAge,
+      subject: decodeJwt(token.value)?.sub ?? null,
+    })
+  }
+
+  // Storage dos tokens da sessão atual: o persistente ou, nos logins sem
+  // "lembrar de mim", o sessionOnlyStorage (escolha salva no persistente)
+  let tokenStorage: AuthStorage = storage
+
+  const readStoredValues = (
+    remembered: string | null | undefined
+  ): MaybePromise<string | null | undefined>[] => {
+    if (cookieMode) return []
+    if (!tokensChanged) {
+      tokenStorage = remembered === 'false' ? sessionOnlyStorage : storage
+    }
+    return [
+      tokenStorage.getToken?.(),
+      tokenStorage.getRefreshToken?.(),
+      tokenStorage.getItem?.(EXPIRES_AT_KEY),
+      tokenStorage.getItem?.(IMPERSONATION_KEY),
+      cacheUser ? tokenStorage.getItem?.(userCacheKey) : null,
+    ]
+  }
+
+  const hydrate = (
+    storedValues: MaybePromise<string | null | undefined>[]
+  ): Promise<void> =>
+    storedValues.some(isPromiseLike)
+      ? Promise.all(storedValues).then(applyStoredTokens)
+      : Promise.resolve(
+          applyStoredTokens(storedValues as (string | null | undefined)[])
+        )
+
+  const remembered = cookieMode ? null : storage.getItem?.(REMEMBER_KEY)
+  const hydration: Promise<void> = (
+    isPromiseLike(remembered)
+      ? remembered.then((value) => hydrate(readStoredValues(value)))
+      : hydrate(readStoredValues(remembered))
+  ).catch((error) => {
+    logger.error('Erro ao ler tokens do storage', { error })
+  })
+
+  // Escritas no storage em fila, preservando a ordem em storages assíncronos
+  let writes: Promise<unknown> = Promise.resolve()
+  const persist = (task: () => unknown): void => {
+    writes = writes.then(task).catch((error) => {
+      logger.error('Erro ao salvar tokens no storage', { error })
+    })
+  }
+
+  // Refresh proativo baseado no `exp` do token (opt-in)
+  // (desativado no servidor para não manter timers entre requisições)
+  const scheduler =
+    autoRefresh && !cookieMode && isBrowser()
+      ? createRefreshScheduler({
+          leeway: refreshLeeway,
+          // Falhas já encerram a sessão em refreshAccessToken
+          refresh: () => refreshAccessToken(),
+        })
+      : null
+
+  // Sincronização entre abas (login, logout, refresh e setUser)
+  const sync = syncTabs
+    ? createTabSync({
+        channel: syncChannel,
+        onMessage: (message) => handleSyncMessage(message),
+      })
+    : null
+
+  /**
+   * Aplica uma mensagem recebida de outra aba, sem reenviá-la
+   */
+  const handleSyncMessage = (message: SyncMessage): void => {
+    switch (message.type) {
+      case 'login':
+        if (message.remember !== undefined) {
+          useTokenStorage(message.remember)
+        }
+        setTokens(
+          message.token,
+          message.refreshToken,
+          message.expiresAt,
+          false
+        )
+        user.value = message.user as T
+        authenticated.value = true
+        saveCachedUser(user.value)
+        break
+      case 'tokens':
+        setTokens(
+          message.token,
+          message.refreshToken,
+          message.expiresAt,
+          false
+        )
+        break
+      case 'user':
+        user.value = message.user as T
+        saveCachedUser(user.value)
+        break
+      case 'impersonation':
+        impersonationStack.value = message.stack as ImpersonationFrame<T>[]
+        break
+      case 'logout':
+        performLogout(false, {
+          reason: message.reason,
+          redirect: message.redirect,
+        })
+        break
+    }
+  }
 
   /**
    * Define os tokens de acesso e refresh
+   * @param newExpiresAt - Expiração informada pela resposta (ms)
+   * @param fresh - false para tokens já emitidos antes (sessão restaurada,
+   *   outra aba, storage), cujo `iat` não serve para estimar o relógio
    */
   const setTokens = (
     newToken: string | null,
-    newRefresh: string | null
+    newRefresh: string | null,
+    newExpiresAt: number | null = null,
+    fresh = true
   ): void => {
+    tokensChanged = true
     token.value = newToken
     refreshToken.value = newRefresh
+    tokenExpiresAt.value = newExpiresAt
+    scheduler?.schedule(newToken, fresh, newExpiresAt)
+    if (cookieMode) return
 
-    if (newToken) {
-      storage.setToken?.(newToken)
-    } else {
-      storage.removeToken?.()
-    }
+    const target = tokenStorage
+    persist(() =>
+      Promise.all([
+        newToken ? target.setToken?.(newToken) : target.removeToken?.(),
+        newRefresh
+          ? target.setRefreshToken?.(newRefresh)
+          : target.removeRefreshToken?.(),
+        // Validade da resposta (`expires_in`): tokens opacos não têm `exp`
+        newExpiresAt
+          ? target.setItem?.(EXPIRES_AT_KEY, String(newExpiresAt))
+          : target.removeItem?.(EXPIRES_AT_KEY),
+      ])
+    )
+  }
 
-    if (newRefresh) {
-      storage.setRefreshToken?.(newRefresh)
-    } else {
-      storage.removeRefreshToken?.()
-    }
+  /**
+   * Escolhe o storage dos tokens conforme o "lembrar de mim", salvando a
+   * escolha e removendo os tokens do outro storage
+   */
+  const useTokenStorage = (remember: boolean): void => {
+    if (cookieMode) return
+    const previous = tokenStorage
+    tokenStorage = remember ? storage : sessionOnlyStorage
+    persist(() =>
+      Promise.all([
+        remember
+          ? storage.removeItem?.(REMEMBER_KEY)
+          : storage.setItem?.(REMEMBER_KEY, 'false'),
+        previous !== tokenStorage &&
+          Promise.all([
+            previous.removeToken?.(),
+            previous.removeRefreshToken?.(),
+            previous.removeItem?.(EXPIRES_AT_KEY),
+            previous.removeItem?.(IMPERSONATION_KEY),
+            cacheUser && previous.removeItem?.(userCacheKey),
+          ]),
+      ])
+    )
+  }
+
+  /**
+   * Salva o usuário no cache (ou o remove), com o `sub` do token atual.
+   * Sem `sub` (tokens opacos) o cache não tem como ser ligado à sessão
+   */
+  const saveCachedUser = (data: T | null): void => {
+    if (!cacheUser) return
+    const target = tokenStorage
+    const subject = claims.value?.sub ?? null
+    const entry: CachedUserEntry<T> | null =
+      data && subject !== null
+        ? {
+            version: userCacheVersion,
+            subject,
+            savedAt: Date.now(),
+            user: data,
+          }
+        : null
+    persist(() =>
+      entry
+        ? target.setItem?.(userCacheKey, JSON.stringify(entry))
+        : target.removeItem?.(userCacheKey)
+    )
   }
 
   /**
    * Limpa todos os dados de autenticação
+   * @param revokeStack - Revoga as sessões guardadas pela impersonação
+   * (o logout já as revoga junto com a sessão atual)
    */
-  const clearAuth = (): void => {
+  const clearAuth = (revokeStack = true): void => {
+    scheduler?.cancel()
+    tokensChanged = true
+    challenge.value = null
     user.value = null
+    cachedUser = null
+    saveCachedUser(null)
     token.value = null
     refreshToken.value = null
+    tokenExpiresAt.value = null
     authenticated.value = false
-    storage.removeToken?.()
-    storage.removeRefreshToken?.()
+    const stacked = impersonationStack.value
+    if (stacked.length) {
+      // Descartadas sem revogação, as sessões guardadas (ex: a do suporte)
+      // continuariam válidas no servidor
+      if (revokeStack) {
+        stacked.forEach((frame) => void revokeSession(false, frame))
+      }
+      saveImpersonationStack([])
+    }
+    if (cookieMode) return
+    const target = tokenStorage
+    persist(() =>
+      Promise.all([
+        target.removeToken?.(),
+        target.removeRefreshToken?.(),
+        target.removeItem?.(EXPIRES_AT_KEY),
+      ])
+    )
   }
 
   /**
    * Realiza o login com as credenciais fornecidas
    */
   const login = async (
-    credentials: LoginCredentials
+    credentials: LoginCredentials,
+    { remember = rememberByDefault }: LoginOptions = {}
   ): Promise<LoginResult<T>> => {
     try {
       loading.value = true
 
-      const { data } = await http.post<LoginResponse>(
+      const response = await http.post<LoginResponse>(
         endpoints.login!,
         credentials,
         {
           headers: { 'Content-Type': 'application/json' },
+          authInstance: name,
         }
       )
 
-      // Extrair tokens da resposta (suporta diferentes formatos)
-      const accessToken = (data[tokenKey] ||
-        data.access ||
-        data.token) as string
-      const refresh = (data[refreshTokenKey] ||
-        data.refresh ||
-        data.refresh_token) as string
+      return await completeLogin(response, remember)
+    } catch (error) {
+      return loginFailed(error, 'Erro ao realizar login')
+    } finally {
+      loading.value = false
+    }
+  }
 
-      setTokens(accessToken, refresh)
-      await fetchUser()
+  /**
+   * Conclui o login a partir da resposta do servidor: emite um desafio
+   * (MFA) ou salva os tokens e busca o usuário
+   */
+  const completeLogin = async (
+    response: AuthResponse<LoginResponse>,
+    remember: boolean = rememberByDefault
+  ): Promise<LoginResult<T>> => {
+    const pending = detectChallenge(response.data)
+    if (pending) {
+      challenge.value = pending
+      challengeRemember = remember
+      logger.info('Login requer verificação adicional', {
+        type: pending.type,
+      })
+      events.emit('challenge', { challenge: pending })
+      return { success: false, challenge: pending }
+    }
+
+    challenge.value = null
+
+    // No modo `cookie` o servidor já definiu o cookie da sessão
+    if (!cookieMode) {
+      const tokens = extractTokens(response)
+      useTokenStorage(remember)
+      setTokens(
+        tokens.accessToken,
+        tokens.refreshToken ?? null,
+        tokens.expiresAt ?? null
+      )
+    }
+    await fetchUser()
+
+    sync?.post({
+      type: 'login',
+      token: token.value,
+      refreshToken: refreshToken.value,
+      expiresAt: tokenExpiresAt.value,
+      remember,
+      user: user.value,
+    })
+    events.emit('login', { user: user.value as T })
+
+    return { success: true, user: user.value as T }
+  }
+
+  /**
+   * Monta o resultado de falha do login e emite o evento de erro
+   */
+  const loginFailed = (
+    error: unknown,
+    fallbackMessage: string
+  ): LoginResult<T> => {
+    const axiosError = error as AxiosError<{
+      detail?: string
+      message?: string
+    }>
+    const message =
+      axiosError.response?.data?.detail ||
+      axiosError.response?.data?.message ||
+      fallbackMessage
 
-      onLogin?.(user.value as T)
+    events.emit('error', { message, error: error as Error })
 
-      return { success: true, user: user.value as T }
+    return { success: false, error: error as Error, message }
+  }
+
+  /**
+   * Envia o código do desafio pendente e conclui o login
+   */
+  const verifyChallenge = async (code: string): Promise<LoginResult<T>> => {
+    const pending = challenge.value
+    if (!pending) {
+      return loginFailed(
+        new Error('No pending login challenge'),
+        'Nenhuma verificação pendente'
+      )
+    }
+
+    try {
+      loading.value = true
+
+      const response = await http.post<LoginResponse>(
+        endpoints.verifyChallenge!,
+        { challenge_id: pending.id, code },
+        { authInstance: name, _skipAuthRefresh: true }
+      )
+
+      return await completeLogin(response, challengeRemember)
     } catch (error) {
-      const axiosError = error as AxiosError<{
-        detail?: string
-        message?: string
-      }>
-      const message =
-        axiosError.response?.data?.detail ||
-        axiosError.response?.data?.message ||
-        'Erro ao realizar login'
-
-      onError?.(message, error as Error)
-
-      return { success: false, error: error as Error, message }
+      return loginFailed(error, 'Código de verificação inválido')
     } finally {
       loading.value = false
     }
   }
 
+  /**
+   * Solicita o reenvio do código do desafio pendente
+   */
+  const resendChallenge = async (): Promise<void> => {
+    const pending = challenge.value
+    if (!pending) {
+      throw new Error('No pending login challenge')
+    }
+
+    const { data } = await http.post<LoginResponse>(
+      endpoints.resendChallenge!,
+      { challenge_id: pending.id },
+      { authInstance: name, _skipAuthRefresh: true }
+    )
+
+    // O servidor pode emitir um novo desafio no reenvio
+    const renewed = data ? detectChallenge(data) : null
+    if (renewed) {
+      challenge.value = renewed
+    }
+  }
+
+  /**
+   * Redireciona para o provedor OAuth para iniciar o login
+   */
+  const loginWithRedirect = async (
+    redirectOptions?: OAuthRedirectOptions
+  ): Promise<void> => {
+    if (!oauthClient) {
+      throw new Error('[vue-auth] OAuth provider not configured')
+    }
+    const url = await oauthClient.buildAuthorizeUrl(redirectOptions)
+    logger.debug('Redirecionando para o provedor OAuth')
+    window.location.assign(url)
+  }
+
+  /**
+   * Valida o callback do provedor OAuth e conclui o login
+   */
+  const handleRedirectCallback = async (
+    query: Record<string, unknown>
+  ): Promise<LoginResult<T>> => {
+    if (!oauthClient) {
+      throw new Error('[vue-auth] OAuth provider not configured')
+    }
+
+    try {
+      loading.value = true
+      const callback = await oauthClient.handleCallback(query)
+      const result = await completeLogin(
+        { data: callback.data, headers: {} },
+        callback.remember ?? rememberByDefault
+      )
+      if (!result.success) {
+        // Com desafio pendente, o destino fica para o redirectAfterLogin()
+        if (callback.returnTo) await returnTo.save(callback.returnTo)
+        return result
+      }
+      const target = await returnTo.resolve(callback.returnTo)
+      return { ...result, returnTo: target ?? undefined }
+    } catch (error) {
+      logger.warn('Callback OAuth falhou', {
+        code: error instanceof OAuthError ? error.code : undefined,
+        error,
+      })
+      return loginFailed(
+        error,
+        error instanceof OAuthError ? error.message : 'Erro ao realizar login'
+      )
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Navega para o destino pós-login validado (ou `defaultRedirect`)
+   */
+  const redirectAfterLogin = async (): Promise<void> => {
+    const target =
+      (await returnTo.resolve(router.currentRoute.value.query.redirect)) ||
+      defaultRedirect
+    logger.debug('Redirecionando após o login', { to: target })
+    if (isExternalUrl(target)) {
+      window.location.assign(target)
+      return
+    }
+    await router.replace(target)
+  }
+
   /**
    * Realiza o logout e redireciona para a página de login
    */
-  const logout = async (): Promise<void> => {
+  const logout = (logoutOptions: LogoutOptions = {}): Promise<void> =>
+    performLogout(true, logoutOptions)
+
+  /**
+   * Executa o logout, avisando as demais abas quando `broadcast` for true
+   */
+  const performLogout = async (
+    broadcast: boolean,
+    { reason, everywhere = false, redirect = true }: LogoutOptions = {}
+  ): Promise<void> => {
+    if (broadcast) {
+      sync?.post({ type: 'logout', reason, redirect })
+    }
+    // O próximo login não volta para um destino da sessão anterior
+    void returnTo.clear()
+
+    // A revogação captura os tokens (inclusive os das sessões guardadas
+    // pela impersonação) antes do clearAuth e termina em segundo plano,
+    // para não travar o logout sem rede (falhas são apenas registradas)
+    if (broadcast) {
+      void revokeSession(everywhere)
+      impersonationStack.value.forEach(
+        (frame) => void revokeSession(false, frame)
+      )
+    }
+
     try {
       authenticated.value = false
-      await router.replace({ name: loginRouteName, query: { logout: 'true' } })
-      clearAuth()
-      onLogout?.()
+      if (redirect) {
+        // O motivo fica na query para a página de login poder explicá-lo
+        await router.replace({
+          name: loginRouteName,
+          query: reason ? { logout: 'true', reason } : { logout: 'true' },
+        })
+      }
+      clearAuth(false)
+      events.emit('logout', { reason })
+    } catch (error) {
+      logger.error('Erro ao realizar logout', { error })
+    }
+  }
+
+  /**
+   * Revoga o refresh token no servidor (best-effort, com timeout)
+   * @param session - Sessão a revogar (padrão: a atual)
+   */
+  const revokeSession = async (
+    everywhere: boolean,
+    session: Pick<ImpersonationFrame<T>, 'token' | 'refreshToken'> = {
+      token: token.value,
+      refreshToken: refreshToken.value,
+    }
+  ): Promise<void> => {
+    const endpoint =
+      everywhere && endpoints.logoutAll ? endpoints.logoutAll : endpoints.logout
+    if (!endpoint) return
+    if (!cookieMode && !session.token && !session.refreshToken) return
+
+    // No modo `cookie` o servidor identifica a sessão pelo cookie
+    const body: Record<string, unknown> = cookieMode
+      ? {}
+      : { [refreshTokenKey]: session.refreshToken }
+    if (everywhere && !endpoints.logoutAll) {
+      body.everywhere = true
+    }
+    const headers = session.token
+      ? { Authorization: `Bearer ${session.token}` }
+      : {}
+
+    try {
+      await http.post(endpoint, body, {
+        headers,
+        timeout: logoutTimeout,
+        authInstance: name,
+        _skipAuthRefresh: true,
+      })
+      logger.debug('Sessão revogada no servidor', { endpoint, everywhere })
     } catch (error) {
-      console.log(error)
+      logger.warn('Falha ao revogar a sessão no servidor', {
+        endpoint,
+        everywhere,
+        status: (error as AxiosError).response?.status,
+        error,
+      })
     }
   }
 
@@ -186,111 +766,772 @@ export function createAuthCore<T = User>(
   const fetchUser = async (): Promise<T> => {
     try {
       loading.value = true
-      const { data } = await http.get<T>(endpoints.user!)
+      return await requestUser()
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Busca o usuário sem alterar o `loading` (usado também na revalidação
+   * do usuário em cache)
+   */
+  const requestUser = async (): Promise<T> => {
+    try {
+      const data = extractUser(
+        await http.get(endpoints.user!, { authInstance: name })
+      )
       user.value = data
       authenticated.value = true
-      onFetchUser?.(data)
+      saveCachedUser(data)
+      events.emit('userFetched', { user: data })
       return data
     } catch (error) {
-      clearAuth()
+      // Sem conexão, os tokens continuam válidos
+      if (!isConnectionFailure(error)) {
+        clearAuth()
+      }
       throw error
-    } finally {
-      loading.value = false
     }
   }
 
+  /** Refresh em andamento, compartilhado entre todas as chamadas */
+  let refreshPromise: Promise<string> | null = null
+
   /**
    * Atualiza o token de acesso usando o refresh token
+   *
+   * Chamadas concorrentes (manuais ou vindas dos interceptors) aguardam
+   * o mesmo refresh em andamento, evitando consumir o refresh token
+   * mais de uma vez quando o backend faz rotação.
+   */
+  const refreshAccessToken = (): Promise<string> => {
+    if (cookieMode) {
+      return Promise.reject(
+        new Error('[vue-auth] Token refresh is not available in cookie mode')
+      )
+    }
+    if (!refreshPromise) {
+      const task = sync
+        ? sync.runExclusive(refreshUnlessRenewed(token.value))
+        : performRefresh()
+      refreshPromise = task
+        .catch((error) => {
+          // Uma única notificação por refresh, mesmo com vários chamadores
+          if (error instanceof RefreshError && error.reason !== 'network') {
+            onSessionExpired?.({
+              reason: error.reason,
+              status: error.status,
+              error: error.cause ?? error,
+            })
+          }
+          throw error
+        })
+        .finally(() => {
+          refreshPromise = null
+        })
+    }
+    return refreshPromise
+  }
+
+  /**
+   * Refresh coordenado entre abas: se outra aba renovou o token enquanto
+   * esta aguardava, reaproveita o token novo em vez de fazer outro refresh
+   */
+  const refreshUnlessRenewed =
+    (staleToken: string | null) => async (): Promise<string> => {
+      await writes
+      const stored = (await tokenStorage.getToken?.()) || null
+      if (stored && stored !== staleToken) {
+        if (stored !== token.value) {
+          const [storedRefresh, storedExpiresAt] = await Promise.all([
+            tokenStorage.getRefreshToken?.(),
+            tokenStorage.getItem?.(EXPIRES_AT_KEY),
+          ])
+          setTokens(
+            stored,
+            storedRefresh || null,
+            parseExpiresAt(storedExpiresAt),
+            false
+          )
+        }
+        return stored
+      }
+      if (token.value && token.value !== staleToken) {
+        return token.value
+      }
+      return performRefresh()
+    }
+
+  /**
+   * Sem conexão, pausa o refresh até a rede voltar (no máximo
+   * `offline.queueTimeout`), mantendo a sessão se o tempo esgotar
+   * @returns Momento em que a conexão voltou (ou agora, se já estava online)
    */
-  const refreshAccessToken = async (): Promise<string> => {
+  const waitForConnection = async (): Promise<number> => {
+    if (!isOffline()) return Date.now()
+    logger.info('Sem conexão, refresh pausado', { timeout: queueTimeout })
+    if (!(await network.waitForOnline(queueTimeout))) {
+      throw keepSession(new RefreshError('network'))
+    }
+    logger.info('Conexão restabelecida, retomando refresh')
+    return Date.now()
+  }
+
+  /**
+   * Executa de fato o refresh, com retentativas conforme a `retryPolicy`
+   *
+   * Erros fatais (refresh token revogado, 4xx) encerram a sessão na hora;
+   * só erros transitórios são repetidos, com backoff exponencial. O tempo
+   * sem conexão não conta no `maxElapsedTime`.
+   */
+  const performRefresh = async (): Promise<string> => {
     if (!refreshToken.value) {
       clearAuth()
-      throw new Error('No refresh token available')
+      throw new RefreshError('missing-refresh-token')
     }
 
-    let lastError: Error | null = null
+    const { maxAttempts } = policy
+    let startedAt = await waitForConnection()
+
+    for (let attempt = 1; ; attempt++) {
+      // Refresh token desta tentativa (outra aba pode rotacioná-lo)
+      const usedRefresh = refreshToken.value!
 
-    for (let i = 0; i < maxRetries; i++) {
       try {
-        console.log(`🔄 Tentativa ${i + 1}/${maxRetries} de refresh token`)
+        logger.debug('Tentando refresh do token', {
+          attempt,
+          maxAttempts,
+          endpoint: endpoints.refresh,
+        })
+        events.emit('refreshAttempt', { attempt, maxAttempts })
 
-        const { data } = await http.post<RefreshResponse>(
-          endpoints.refresh!,
-          { [refreshTokenKey]: refreshToken.value },
-          { _skipAuthRefresh: true } as any
-        )
+        const response: AuthResponse<RefreshResponse> = oauthClient
+          ? { data: await oauthClient.refresh(usedRefresh), headers: {} }
+          : await http.post<RefreshResponse>(
+              endpoints.refresh!,
+              { [refreshTokenKey]: usedRefresh },
+              { authInstance: name, _skipAuthRefresh: true }
+            )
 
-        // Extrair novo token da resposta
-        const newToken = (data[tokenKey] || data.access || data.token) as string
+        // Com rotação, o servidor devolve um novo refresh token; sem ela,
+        // mantém o atual. Os dois são salvos juntos em setTokens.
+        const tokens = extractTokens(response)
+        const newToken = tokens.accessToken
+        const newRefresh = tokens.refreshToken || usedRefresh
+        const newExpiresAt = tokens.expiresAt ?? null
 
-        setTokens(newToken, refreshToken.value)
-        console.log(`✅ Token atualizado com sucesso`)
+        setTokens(newToken, newRefresh, newExpiresAt)
+        sync?.post({
+          type: 'tokens',
+          token: newToken,
+          refreshToken: newRefresh,
+          expiresAt: newExpiresAt,
+        })
+        logger.info('Token atualizado com sucesso', {
+          attempt,
+          rotated: newRefresh !== usedRefresh,
+        })
+        events.emit('tokenRefreshed', { token: newToken })
         return newToken
       } catch (error) {
-        lastError = error as Error
-        const axiosError = error as AxiosError
-        console.error(
-          `❌ Tentativa ${i + 1}/${maxRetries} falhou:`,
-          axiosError.response?.status
-        )
+        const status = (error as AxiosError).response?.status
+        logger.warn('Tentativa de refresh falhou', {
+          attempt,
+          maxAttempts,
+          status,
+          endpoint: endpoints.refresh,
+        })
 
-        if (i < maxRetries - 1) {
-          const delay = 1000 * (i + 1)
-          console.log(`⏳ Aguardando ${delay}ms...`)
+        if (isRevokedRefreshError(error)) {
+          // Outra aba pode ter rotacionado o token enquanto esta tentava
+          const renewed = await adoptRotatedTokens(usedRefresh)
+          if (renewed) return renewed
+
+          logger.warn('Refresh token inválido ou reutilizado', {
+            status,
+            endpoint: endpoints.refresh,
+          })
+          throw failRefresh(new RefreshError('revoked', error))
+        }
+
+        // Falhas de conexão nunca encerram a sessão
+        const lostConnection = isNetworkError(error)
+        const giveUp = (reason: SessionExpiredReason) =>
+          lostConnection
+            ? keepSession(new RefreshError('network', error))
+            : failRefresh(new RefreshError(reason, error))
+
+        // Offline: a próxima tentativa aguarda a rede voltar, sem backoff
+        if (lostConnection && isOffline()) {
+          if (attempt >= maxAttempts) throw giveUp('exhausted')
+          startedAt = await waitForConnection()
+          continue
+        }
+
+        if (!policy.isRetryable(error)) {
+          throw giveUp('rejected')
+        }
+
+        const delay = policy.delay(attempt)
+        if (
+          attempt >= maxAttempts ||
+          Date.now() - startedAt + delay > policy.maxElapsedTime
+        ) {
+          throw giveUp('exhausted')
+        }
+
+        // Offline: o backoff é interrompido e a tentativa aguarda a rede
+        if (!policy.abortWhenOffline) {
           await sleep(delay)
+        } else if (isOffline() || !(await sleepUnlessOffline(delay))) {
+          startedAt = await waitForConnection()
         }
+        logger.debug('Nova tentativa de refresh', { attempt, delay })
       }
     }
+  }
 
-    console.error('❌ Todas as tentativas de refresh falharam')
+  /**
+   * Encerra a sessão após a falha definitiva do refresh
+   * @returns O próprio erro, para ser lançado
+   */
+  const failRefresh = (error: RefreshError): RefreshError => {
+    logger.error('Refresh do token falhou', {
+      reason: error.reason,
+      status: error.status,
+      endpoint: endpoints.refresh,
+      error: error.cause,
+    })
     clearAuth()
-    throw lastError
+    events.emit('refreshFailed', { error })
+    return error
+  }
+
+  /**
+   * Desiste do refresh por falta de conexão, mantendo a sessão
+   * @returns O próprio erro, para ser lançado
+   */
+  const keepSession = (error: RefreshError): RefreshError => {
+    logger.warn('Refresh sem conexão com o servidor, sessão mantida', {
+      endpoint: endpoints.refresh,
+      error: error.cause,
+    })
+    events.emit('refreshFailed', { error })
+    return error
+  }
+
+  /**
+   * Reaproveita tokens rotacionados por outra aba/refresh concorrente
+   * @returns Novo token de acesso ou null se nada mudou
+   */
+  const adoptRotatedTokens = async (
+    usedRefresh: string
+  ): Promise<string | null> => {
+    const current = refreshToken.value
+    if (token.value && current && current !== usedRefresh) {
+      return token.value
+    }
+
+    await writes
+    const [storedToken, storedRefresh, storedExpiresAt] = await Promise.all([
+      tokenStorage.getToken?.(),
+      tokenStorage.getRefreshToken?.(),
+      tokenStorage.getItem?.(EXPIRES_AT_KEY),
+    ])
+    if (storedToken && storedRefresh && storedRefresh !== usedRefresh) {
+      setTokens(
+        storedToken,
+        storedRefresh,
+        parseExpiresAt(storedExpiresAt),
+        false
+      )
+      return storedToken
+    }
+    return null
+  }
+
+  /**
+   * Busca o usuário, aguardando a conexão voltar se a rede falhar
+   */
+  const fetchUserWhenOnline = async (
+    fetch: () => Promise<T> = fetchUser
+  ): Promise<void> => {
+    try {
+      await fetch()
+    } catch (error) {
+      if (!isConnectionFailure(error)) throw error
+      logger.warn('Sem conexão ao buscar o usuário, aguardando a rede', {
+        timeout: queueTimeout,
+      })
+      if (!(await network.waitForOnline(queueTimeout))) throw error
+      await fetch()
+    }
+  }
+
+  /**
+   * Revalida em segundo plano o usuário restaurado do cache
+   */
+  const revalidateUser = async (): Promise<void> => {
+    try {
+      await fetchUserWhenOnline(requestUser)
+      logger.debug('Usuário em cache revalidado', { endpoint: endpoints.user })
+    } catch (error) {
+      // Sem conexão, a sessão continua com o usuário em cache
+      if (isConnectionFailure(error)) {
+        logger.warn('Sem conexão para revalidar o usuário em cache', {
+          error,
+        })
+        return
+      }
+      logger.warn('Usuário em cache inválido, sessão encerrada', {
+        status: (error as AxiosError).response?.status,
+        error,
+      })
+      // Falhas do refresh já redirecionam via onSessionExpired; nas demais,
+      // os guards avaliam a rota atual de novo, agora sem sessão
+      if (error instanceof RefreshError) return
+      const { path, query, hash } = router.currentRoute.value
+      router
+        .replace({ path, query, hash, force: true })
+        .catch((navigationError) => {
+          logger.error('Erro ao reavaliar a rota atual', {
+            error: navigationError,
+          })
+        })
+    }
   }
 
   /**
    * Inicializa o sistema de autenticação
    */
   const initialize = async (): Promise<void> => {
+    // Estado hidratado do SSR: não busca o usuário novamente
+    if (pendingInitialState) {
+      pendingInitialState = false
+      await hydration
+      if (authenticated.value && token.value) {
+        scheduler?.schedule(token.value, false, tokenExpiresAt.value)
+      }
+      logger.debug('Auth hidratado a partir do estado do servidor', {
+        authenticated: authenticated.value,
+      })
+      return
+    }
+
     loading.value = true
     try {
-      if (token.value) {
-        console.log('🔑 Token encontrado, buscando usuário...')
-        await fetchUser()
+      await hydration
+      // No modo `cookie`, só o endpoint `user` sabe se há sessão
+      if (cookieMode || token.value) {
+        logger.debug('Buscando usuário', {
+          mode,
+          endpoint: endpoints.user,
+        })
+        scheduler?.schedule(token.value, false, tokenExpiresAt.value)
+        if (cachedUser) {
+          // Stale-while-revalidate: libera os guards com o usuário em cache
+          // e troca pelos dados do servidor quando a revalidação terminar
+          user.value = cachedUser
+          authenticated.value = true
+          cachedUser = null
+          logger.debug('Usuário restaurado do cache, revalidando', {
+            endpoint: endpoints.user,
+          })
+          void revalidateUser()
+          return
+        }
+        await fetchUserWhenOnline()
       } else {
-        console.log('🚫 Sem token, usuário não autenticado')
+        logger.debug('Sem token, usuário não autenticado')
       }
     } catch (error) {
-      console.error('❌ Erro ao inicializar:', error)
-      clearAuth()
+      const status = (error as AxiosError).response?.status
+      if (cookieMode && status === 401) {
+        logger.debug('Sem sessão ativa no cookie')
+      } else {
+        logger.error('Erro ao inicializar', {
+          status,
+          endpoint: endpoints.user,
+          error,
+        })
+      }
+      if (!isConnectionFailure(error)) {
+        clearAuth()
+      }
     } finally {
       loading.value = false
-      console.log('✅ Inicialização do Auth completa')
+      logger.debug('Inicialização do auth completa', {
+        authenticated: authenticated.value,
+      })
     }
   }
 
+  // Logout automático por inatividade (opt-in, apenas no navegador)
+  const idleTracker =
+    idle && isBrowser()
+      ? createIdleTracker(
+          { storageKey: `${syncChannel}:idle`, ...idle },
+          (leader) => {
+            logger.info('Sessão encerrada por inatividade', {
+              timeout: idle.timeout,
+              leader,
+            })
+            // Só a primeira aba a esgotar o tempo avisa as demais e revoga
+            // a sessão; as outras apenas encerram a sessão local
+            performLogout(leader, { reason: 'idle' })
+          }
+        )
+      : null
+
+  if (idleTracker) {
+    watch(
+      authenticated,
+      (value) => (value ? idleTracker.start() : idleTracker.stop()),
+      { immediate: true }
+    )
+    // O login reinicia a contagem (a compartilhada pode ser de outra sessão)
+    events.on('login', () => idleTracker.extend())
+  }
+
   /**
    * Define os dados do usuário manualmente
    */
   const setUser = (userData: T): void => {
     user.value = userData
+    saveCachedUser(userData)
+    sync?.post({ type: 'user', user: userData })
+  }
+
+  /**
+   * Atualiza a pilha da impersonação e a salva no storage
+   */
+  const saveImpersonationStack = (frames: ImpersonationFrame<T>[]): void => {
+    impersonationStack.value = frames
+    if (cookieMode) return
+    const target = tokenStorage
+    persist(() =>
+      frames.length
+        ? target.setItem?.(IMPERSONATION_KEY, JSON.stringify(frames))
+        : target.removeItem?.(IMPERSONATION_KEY)
+    )
+  }
+
+  /**
+   * Restaura uma sessão salva, substituindo a pilha da impersonação
+   */
+  const restoreSession = (
+    frame: ImpersonationFrame<T>,
+    frames: ImpersonationFrame<T>[]
+  ): void => {
+    saveImpersonationStack(frames)
+    setTokens(frame.token, frame.refreshToken, frame.expiresAt, false)
+    user.value = frame.user
+    authenticated.value = !!frame.user
+    saveCachedUser(frame.user)
+    sync?.post({
+      type: 'login',
+      token: frame.token,
+      refreshToken: frame.refreshToken,
+      expiresAt: frame.expiresAt,
+      user: frame.user,
+    })
+    sync?.post({ type: 'impersonation', stack: frames })
   }
 
+  /**
+   * Entra na conta de outro usuário, salvando a sessão atual
+   */
+  const impersonate = async (
+    targetId: string | number
+  ): Promise<LoginResult<T>> => {
+    if (!endpoints.impersonate) {
+      throw new Error('[vue-auth] Impersonation endpoint not configured')
+    }
+    if (cookieMode) {
+      throw new Error(
+        '[vue-auth] Impersonation is not supported in cookie mode'
+      )
+    }
+    if (!authenticated.value) {
+      throw new Error('[vue-auth] Impersonation requires an active session')
+    }
+
+    const saved: ImpersonationFrame<T> = {
+      token: token.value,
+      refreshToken: refreshToken.value,
+      expiresAt: tokenExpiresAt.value,
+      user: user.value,
+    }
+    const previous = impersonationStack.value
+    const frames = [...previous, saved]
+    let swapped = false
+
+    try {
+      loading.value = true
+      const response = await http.post<LoginResponse>(
+        endpoints.impersonate,
+        { user_id: targetId },
+        { authInstance: name }
+      )
+      const tokens = extractTokens(response)
+
+      saveImpersonationStack(frames)
+      setTokens(
+        tokens.accessToken,
+        tokens.refreshToken ?? null,
+        tokens.expiresAt ?? null
+      )
+      swapped = true
+      await fetchUser()
+    } catch (error) {
+      // Falha após a troca dos tokens: volta para a sessão salva
+      if (swapped) {
+        restoreSession(saved, previous)
+      }
+      logger.warn('Falha ao iniciar a impersonação', {
+        targetId,
+        status: (error as AxiosError).response?.status,
+        error,
+      })
+      return loginFailed(error, 'Erro ao acessar a conta do usuário')
+    } finally {
+      loading.value = false
+    }
+
+    sync?.post({
+      type: 'login',
+      token: token.value,
+      refreshToken: refreshToken.value,
+      expiresAt: tokenExpiresAt.value,
+      user: user.value,
+    })
+    sync?.post({ type: 'impersonation', stack: frames })
+    logger.info('Impersonação iniciada', { targetId, depth: frames.length })
+    events.emit('impersonationStarted', {
+      user: user.value as T,
+      originalUser: frames[0].user,
+    })
+
+    return { success: true, user: user.value as T }
+  }
+
+  /**
+   * Encerra a impersonação atual e restaura a sessão anterior
+   */
+  const stopImpersonating = async (): Promise<void> => {
+    const frames = impersonationStack.value
+    const saved = frames[frames.length - 1]
+    if (!saved) return
+
+    // Revoga a sessão impersonada (captura os tokens antes da troca)
+    const revocation = revokeSession(false)
+    restoreSession(saved, frames.slice(0, -1))
+
+    logger.info('Impersonação encerrada', { depth: frames.length - 1 })
+    events.emit('impersonationStopped', { user: user.value })
+    await revocation
+  }
+
+  /**
+   * Serializa o estado para hidratação no cliente (SSR).
+   * Os tokens não são incluídos: o cliente os lê do próprio storage.
+   */
+  const serialize = (): AuthSnapshot<T> => ({
+    user: user.value,
+    authenticated: authenticated.value,
+  })
+
   return {
+    name,
+    mode,
+
     // State (computed para garantir reatividade)
     token: computed(() => token.value),
     refreshToken: computed(() => refreshToken.value),
     user: computed(() => user.value),
     isAuthenticated,
     loading: computed(() => loading.value),
+    roles,
+    permissions,
+    challenge: computed(() => challenge.value),
+    expiresAt,
+    idle: idleTracker
+      ? {
+          isIdle: idleTracker.isIdle,
+          remainingMs: idleTracker.remainingMs,
+          warningActive: idleTracker.warningActive,
+          extend: idleTracker.extend,
+        }
+      : null,
+    isOnline: network.isOnline,
+    pendingRequests: network.pendingRequests,
+    impersonating: computed(() => impersonationStack.value.length > 0),
+    originalUser: computed(() => impersonationStack.value[0]?.user ?? null),
 
     // Methods
     login,
     logout,
+    verifyChallenge,
+    resendChallenge,
+    loginWithRedirect,
+    handleRedirectCallback,
     fetchUser,
     refreshAccessToken,
-    clearAuth,
+    clearAuth: () => clearAuth(),
     initialize,
     setUser,
-    setTokens: (t: string, r: string) => setTokens(t, r),
+    impersonate,
+    stopImpersonating,
+    redirectAfterLogin,
+    serialize,
+    setTokens: (t: string, r: string) => {
+      setTokens(t, r)
+      sync?.post({ type: 'tokens', token: t, refreshToken: r })
+    },
+    can: (permission: AccessRule) =>
+      matchesRule(permissions.value, permission),
+    hasRole: (role: AccessRule) => matchesRule(roles.value, role),
+
+    // Events
+    on: events.on,
+    off: events.off,
+    once: events.once,
+    _emit: events.emit,
+    _network: network,
+    _returnTo: returnTo,
+    _dispose: () => {
+      scheduler?.cancel()
+      sync?.close()
+      network.close()
+    },
   }
 }
+
+/** Chave da expiração informada pela resposta (ms) no storage */
+const EXPIRES_AT_KEY = 'expires_at'
+
+/** Chave da escolha do "lembrar de mim" no storage persistente */
+const REMEMBER_KEY = 'remember'
+
+/** Chave da pilha da impersonação no storage */
+const IMPERSONATION_KEY = 'impersonation'
+
+/**
+ * Lê a expiração salva no storage (ms)
+ */
+function parseExpiresAt(value: string | null | undefined): number | null {
+  const expiresAt = Number(value)
+  return value && Number.isFinite(expiresAt) ? expiresAt : null
+}
+
+/**
+ * Usuário salvo pelo cache, com a versão, o `sub` do token e a data
+ */
+interface CachedUserEntry<T> {
+  version: string | number
+  subject: unknown
+  savedAt: number
+  user: T
+}
+
+/**
+ * Lê o usuário em cache, descartando outra versão, outro usuário (`sub` do
+ * token), um token sem `sub` ou um cache mais velho que `maxAge`
+ */
+function parseCachedUser<T>(
+  value: string | null | undefined,
+  expected: { version: string | number; maxAge: number; subject: unknown }
+): T | null {
+  if (!value) return null
+  try {
+    const entry = JSON.parse(value) as CachedUserEntry<T>
+    const valid =
+      entry?.version === expected.version &&
+      expected.subject !== null &&
+      entry.subject === expected.subject &&
+      Date.now() - entry.savedAt <= expected.maxAge
+    return valid && entry.user ? entry.user : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Lê a pilha da impersonação salva no storage
+ */
+function parseImpersonationStack<T>(
+  value: string | null | undefined
+): ImpersonationFrame<T>[] {
+  if (!value) return []
+  try {
+    const frames = JSON.parse(value)
+    return Array.isArray(frames) ? frames : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Detector padrão de desafio de login (MFA)
+ *
+ * Reconhece `{ challenge: { type, id } }` ou campos planos como
+ * `{ mfa_required: true, challenge_id, challenge_type }`.
+ */
+export function defaultDetectChallenge(
+  data: LoginResponse
+): LoginChallenge | null {
+  if (!data || typeof data !== 'object') return null
+
+  const nested = data.challenge
+  if (nested && typeof nested === 'object') {
+    const { type, id, ...rest } = nested as Record<string, unknown>
+    if (id !== undefined && id !== null) {
+      return { ...rest, type: String(type ?? 'totp'), id: String(id) }
+    }
+  }
+
+  const id = data.challenge_id ?? data.mfa_token
+  if ((data.mfa_required || data.challenge_id) && id) {
+    return {
+      type: String(data.challenge_type ?? data.method ?? 'totp'),
+      id: String(id),
+    }
+  }
+
+  return null
+}
+
+/** Códigos de erro que indicam refresh token revogado ou reutilizado */
+const REVOKED_REFRESH_CODES = [
+  'invalid_grant',
+  'token_not_valid',
+  'token_revoked',
+  'token_reused',
+  'refresh_token_reused',
+]
+
+/**
+ * Verifica se o erro de refresh indica um refresh token revogado,
+ * expirado ou reutilizado (fim definitivo da sessão, sem retentativas)
+ */
+export function isRevokedRefreshError(error: unknown): boolean {
+  if (error instanceof OAuthError) {
+    return error.code === 'invalid_grant'
+  }
+
+  const response = (error as AxiosError<Record<string, unknown>>)?.response
+  if (!response || (response.status !== 400 && response.status !== 401)) {
+    return false
+  }
+
+  const data = response.data
+  if (!data || typeof data !== 'object') {
+    return response.status === 401
+  }
+  const code = data.error ?? data.code
+  return (
+    response.status === 401 ||
+    (typeof code === 'string' && REVOKED_REFRESH_CODES.includes(code))
+  )
+}
@@ -0,0 +1,214 @@
+import {
+  defineComponent,
+  shallowRef,
+  watchEffect,
+  type App,
+  type Directive,
+  type DirectiveBinding,
+  type PropType,
+  type ShallowRef,
+  type SlotsType,
+} from 'vue'
+import { useAuth, DEFAULT_AUTH_NAME } from './index'
+import type { AccessRule, AuthInstance, User } from './types'
+
+/**
+ * Regras de acesso aceitas pelo `<RequireAuth>` e pelo `v-auth`
+ */
+export interface AccessRequirement {
+  /** Role(s) exigida(s) */
+  roles?: AccessRule
+  /** Permissão(ões) exigida(s) */
+  permissions?: AccessRule
+}
+
+/**
+ * Verifica se o usuário está autenticado e atende às regras
+ */
+function isAllowed(
+  auth: AuthInstance,
+  { roles, permissions }: AccessRequirement = {}
+): boolean {
+  return (
+    auth.isAuthenticated.value &&
+    (roles === undefined || auth.hasRole(roles)) &&
+    (permissions === undefined || auth.can(permissions))
+  )
+}
+
+/**
+ * Renderiza um slot diferente para cada estado do auth
+ *
+ * @example
+ * ```vue
+ * <AuthGate>
+ *   <template #loading>Carregando...</template>
+ *   <template #authenticated="{ user }">Olá, {{ user.name }}!</template>
+ *   <template #guest><RouterLink to="/login">Entrar</RouterLink></template>
+ * </AuthGate>
+ * ```
+ */
+export const AuthGate = defineComponent({
+  name: 'AuthGate',
+  props: {
+    /** Nome da instância do auth (padrão: 'default') */
+    name: String,
+  },
+  slots: Object as SlotsType<{
+    loading?: {}
+    authenticated?: { user: User; auth: AuthInstance }
+    guest?: {}
+  }>,
+  setup(props, { slots }) {
+    const auth = useAuth(props.name)
+    return () => {
+      if (auth.loading.value) return slots.loading?.({})
+      if (auth.isAuthenticated.value) {
+        return slots.authenticated?.({ user: auth.user.value!, auth })
+      }
+      return slots.guest?.({})
+    }
+  },
+})
+
+/**
+ * Renderiza o conteúdo apenas para usuários autenticados (e com as
+ * roles/permissões exigidas); os demais veem o slot `fallback`
+ *
+ * @example
+ * ```vue
+ * <RequireAuth roles="admin">
+ *   <AdminPanel />
+ *   <template #fallback>Acesso restrito</template>
+ * </RequireAuth>
+ * ```
+ */
+export const RequireAuth = defineComponent({
+  name: 'RequireAuth',
+  props: {
+    /** Nome da instância do auth (padrão: 'default') */
+    name: String,
+    /** Role(s) exigida(s) */
+    roles: [String, Array, Object] as PropType<AccessRule>,
+    /** Permissão(ões) exigida(s) */
+    permissions: [String, Array, Object] as PropType<AccessRule>,
+  },
+  slots: Object as SlotsType<{
+    default?: { user: User }
+    fallback?: {}
+    loading?: {}
+  }>,
+  setup(props, { slots }) {
+    const auth = useAuth(props.name)
+    return () => {
+      if (auth.loading.value) return slots.loading?.({})
+      if (isAllowed(auth, props)) {
+        return slots.default?.({ user: auth.user.value! })
+      }
+      return slots.fallback?.({})
+    }
+  },
+})
+
+/**
+ * Valor do `v-auth`: as regras de acesso exigidas (opcional)
+ */
+export type AuthDirectiveValue = AccessRequirement | undefined
+
+/**
+ * Estado de cada elemento com `v-auth` / `v-guest`
+ */
+interface DirectiveState {
+  value: ShallowRef<AuthDirectiveValue>
+  stop: () => void
+}
+
+/**
+ * Obtém a instância do auth indicada no argumento da diretiva
+ */
+function resolveDirectiveAuth(
+  binding: DirectiveBinding<AuthDirectiveValue>
+): AuthInstance {
+  const name = binding.arg || DEFAULT_AUTH_NAME
+  const auth: AuthInstance | undefined = binding.instance?.$auths?.[name]
+  if (!auth) {
+    throw new Error(`[vue-auth] Auth instance "${name}" not installed`)
+  }
+  return auth
+}
+
+/**
+ * Cria uma diretiva que exibe o elemento quando `visible` retorna true
+ *
+ * O argumento da diretiva é o nome da instância (ex: `v-auth:admin`).
+ * Assim como o `v-show`, o elemento é escondido com `display: none`.
+ */
+function createVisibilityDirective(
+  visible: (auth: AuthInstance, value: AuthDirectiveValue) => boolean
+): Directive<HTMLElement, AuthDirectiveValue> {
+  const states = new WeakMap<HTMLElement, DirectiveState>()
+  const isVisible = (auth: AuthInstance, value: AuthDirectiveValue) =>
+    !auth.loading.value && visible(auth, value)
+
+  return {
+    mounted(el, binding) {
+      const auth = resolveDirectiveAuth(binding)
+      const display = el.style.display === 'none' ? '' : el.style.display
+      const value = shallowRef(binding.value)
+      const stop = watchEffect(() => {
+        el.style.display = isVisible(auth, value.value) ? display : 'none'
+      })
+      states.set(el, { value, stop })
+    },
+    updated(el, binding) {
+      const state = states.get(el)
+      if (state) state.value.value = binding.value
+    },
+    unmounted(el) {
+      states.get(el)?.stop()
+      states.delete(el)
+    },
+    getSSRProps(binding) {
+      const auth = resolveDirectiveAuth(binding)
+      return isVisible(auth, binding.value)
+        ? {}
+        : { style: { display: 'none' } }
+    },
+  }
+}
+
+/**
+ * Exibe o elemento apenas para usuários autenticados, opcionalmente com
+ * as roles/permissões exigidas
+ *
+ * @example
+ * ```vue
+ * <button v-auth @click="logout">Sair</button>
+ * <RouterLink v-auth="{ roles: 'admin' }" to="/admin">Admin</RouterLink>
+ * <span v-auth:admin>Conectado ao painel</span>
+ * ```
+ */
+export const vAuth = createVisibilityDirective(isAllowed)
+
+/**
+ * Exibe o elemento apenas para visitantes (não autenticados)
+ *
+ * @example
+ * ```vue
+ * <RouterLink v-guest to="/login">Entrar</RouterLink>
+ * ```
+ */
+export const vGuest = createVisibilityDirective(
+  (auth) => !auth.isAuthenticated.value
+)
+
+/**
+ * Registra os componentes e diretivas globais (uma vez por app)
+ * @param app - Vue app
+ */
+export function registerAuthComponents(app: App): void {
+  if (!app.component('AuthGate')) app.component('AuthGate', AuthGate)
+  if (!app.component('RequireAuth')) app.component('RequireAuth', RequireAuth)
+  if (!app.directive('auth')) app.directive('auth', vAuth)
+  if (!app.directive('guest')) app.directive('guest', vGuest)
+}
@@ -0,0 +1,63 @@
+import type { InternalAxiosRequestConfig } from 'axios'
+import { readCookie } from './storage'
+import type { CsrfOptions } from './types'
+
+/** Métodos que não alteram estado e dispensam o token CSRF */
+const DEFAULT_SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS', 'TRACE']
+
+/**
+ * Controlador do token CSRF do modo `cookie`
+ */
+export interface CsrfHandler {
+  /** Adiciona o token CSRF à requisição, se o método não for seguro */
+  apply: (config: InternalAxiosRequestConfig) => void
+  /** Guarda o token CSRF enviado pelo servidor no header da resposta */
+  capture: (headers: Record<string, unknown> | undefined) => void
+}
+
+/**
+ * Cria o controlador do token CSRF
+ *
+ * O token vem do último header de resposta configurado em `responseHeader`
+ * ou, na falta dele, do cookie `cookieName` (padrão do Django).
+ *
+ * @param options - CSRF options
+ * @returns CsrfHandler
+ */
+export function createCsrfHandler(options: CsrfOptions = {}): CsrfHandler {
+  const {
+    cookieName = 'csrftoken',
+    headerName = 'X-CSRFToken',
+    responseHeader,
+    safeMethods = DEFAULT_SAFE_METHODS,
+  } = options
+
+  const safe = safeMethods.map((method) => method.toUpperCase())
+  let captured: string | null = null
+
+  const read = (): string | null => {
+    if (captured) return captured
+    if (typeof document === 'undefined') return null
+    return readCookie(document.cookie, cookieName)
+  }
+
+  const apply = (config: InternalAxiosRequestConfig): void => {
+    const method = (config.method || 'GET').toUpperCase()
+    if (safe.includes(method)) return
+    const token = read()
+    if (token) {
+      config.headers[headerName] = token
+    }
+  }
+
+  const capture = (headers: Record<string, unknown> | undefined): void => {
+    if (!responseHeader || !headers) return
+    const value =
+      headers[responseHeader.toLowerCase()] ?? headers[responseHeader]
+    if (typeof value === 'string' && value) {
+      captured = value
+    }
+  }
+
+  return { apply, capture }
+}
@@ -0,0 +1,298 @@
+import { watch, type App } from 'vue'
+import {
+  setupDevtoolsPlugin,
+  type CustomInspectorState,
+  type PluginDescriptor,
+  type TimelineEvent,
+} from '@vue/devtools-api'
+import { decodeJwt, encodeUnsignedJwt } from './jwt'
+import { isBrowser, isProduction } from './utils'
+import { createLogger } from './logger'
+import type { EventHandler } from './events'
+import type { AuthEventMap, AuthInstance, AuthLogger } from './types'
+
+/** Cores da camada da timeline e das tags do inspector */
+const COLORS = {
+  layer: 0x41b883,
+  authenticated: 0x41b883,
+  guest: 0x73808c,
+  loading: 0xf2c94c,
+  white: 0xffffff,
+}
+
+/**
+ * Indica se a integração com o devtools deve ser ativada por padrão
+ * (no navegador, fora de produção)
+ */
+export function isDevtoolsEnabled(): boolean {
+  return isBrowser() && !isProduction()
+}
+
+/**
+ * Mascara um token para exibição (início e fim apenas)
+ * @param token - Token a mascarar
+ * @returns Token mascarado ou null
+ */
+export function maskToken(token: string | null): string | null {
+  if (!token) return null
+  if (token.length <= 16) return '•'.repeat(8)
+  return `${token.slice(0, 8)}…${token.slice(-4)}`
+}
+
+/**
+ * Registra o inspector e a camada da timeline do auth no Vue Devtools
+ *
+ * O inspector mostra o estado (usuário, tokens mascarados, claims) e tem
+ * ações para forçar o refresh e expirar o token de acesso. A timeline
+ * registra login, logout, tentativas de refresh e o resultado, 401s
+ * interceptados, reenvios e redirects dos guards.
+ *
+ * @param app - Vue app
+ * @param auth - Auth instance
+ * @param options - Devtools options
+ */
+export function setupDevtools(
+  app: App,
+  auth: AuthInstance,
+  options: { logger?: AuthLogger } = {}
+): void {
+  const { logger = createLogger() } = options
+  const id = `novadata-vue-auth:${auth.name}`
+  const label = auth.name === 'default' ? 'Auth' : `Auth (${auth.name})`
+
+  setupDevtoolsPlugin(
+    {
+      id,
+      label,
+      packageName: 'novadata-vue-auth',
+      homepage: 'https://github.com/TimeNovaData/auth-plugin-vue',
+      // Tipagem recursiva do App estoura o `Exact` do devtools-api
+      app: app as unknown as PluginDescriptor['app'],
+    },
+    (api) => {
+      api.addInspector({
+        id,
+        label,
+        icon: 'lock',
+        noSelectionText: 'Selecione a instância do auth',
+        actions: [
+          {
+            icon: 'refresh',
+            tooltip: 'Forçar refresh do token',
+            action: async () => {
+              try {
+                await auth.refreshAccessToken()
+              } catch (error) {
+                logger.warn('Refresh forçado pelo devtools falhou', { error })
+              }
+            },
+          },
+          {
+            icon: 'timer_off',
+            tooltip: 'Expirar o token de acesso',
+            action: () => {
+              if (auth.mode === 'cookie' || !auth.token.value) {
+                logger.warn('Sem token de acesso para expirar')
+                return
+              }
+              // Token com `exp` no passado: a próxima requisição recebe 401
+              // (e o refresh proativo dispara imediatamente)
+              const expired = encodeUnsignedJwt({
+                ...decodeJwt(auth.token.value),
+                exp: Math.floor(Date.now() / 1000) - 1,
+              })
+              auth.setTokens(expired, auth.refreshToken.value || '')
+              logger.info('Token de acesso expirado pelo devtools')
+            },
+          },
+        ],
+      })
+
+      api.on.getInspectorTree((payload) => {
+        if (payload.inspectorId !== id) return
+        const status = inspectStatus(auth)
+        payload.rootNodes = [
+          {
+            id: auth.name,
+            label: auth.name,
+            tags: [
+              {
+                label: status.label,
+                textColor: COLORS.white,
+                backgroundColor: status.color,
+              },
+              {
+                label: auth.mode,
+                textColor: COLORS.white,
+                backgroundColor: COLORS.guest,
+              },
+            ],
+          },
+        ]
+      })
+
+      api.on.getInspectorState((payload) => {
+        if (payload.inspectorId !== id) return
+        payload.state = inspectState(auth)
+      })
+
+      // Atualiza o inspector quando o estado muda
+      const stop = watch(
+        () => [
+          auth.user.value,
+          auth.token.value,
+          auth.refreshToken.value,
+          auth.loading.value,
+          auth.isAuthenticated.value,
+          auth.isOnline.value,
+          auth.pendingRequests.value,
+          auth.impersonating.value,
+        ],
+        () => {
+          api.sendInspectorTree(id)
+          api.sendInspectorState(id)
+        }
+      )
+      app.onUnmount(stop)
+
+      api.addTimelineLayer({ id, label, color: COLORS.layer })
+
+      const addEvent = (event: Omit<TimelineEvent, 'time'>) =>
+        api.addTimelineEvent({
+          layerId: id,
+          event: { time: api.now(), ...event },
+        })
+
+      // Tentativas do mesmo refresh ficam agrupadas
+      let refreshGroup = 0
+      const track = <K extends keyof AuthEventMap>(
+        event: K,
+        toEvent: (payload: AuthEventMap[K]) => Omit<TimelineEvent, 'time'>
+      ) => {
+        const handler = (payload: AuthEventMap[K]) => addEvent(toEvent(payload))
+        const off = auth.on(event, handler as EventHandler<AuthEventMap[K]>)
+        app.onUnmount(off)
+      }
+
+      track('login', ({ user }) => ({ title: 'login', data: { user } }))
+      track('challenge', ({ challenge }) => ({
+        title: 'desafio MFA',
+        data: { challenge },
+      }))
+      track('logout', ({ reason }) => ({
+        title: 'logout',
+        subtitle: reason,
+        data: { reason },
+      }))
+      track('refreshAttempt', ({ attempt, maxAttempts }) => {
+        if (attempt === 1) refreshGroup++
+        return {
+          title: 'refresh',
+          subtitle: `tentativa ${attempt}/${maxAttempts}`,
+          groupId: `refresh-${refreshGroup}`,
+          data: { attempt, maxAttempts },
+        }
+      })
+      track('tokenRefreshed', ({ token }) => ({
+        title: 'refresh ok',
+        groupId: `refresh-${refreshGroup}`,
+        data: { token: maskToken(token), claims: decodeJwt(token) },
+      }))
+      track('refreshFailed', ({ error }) => ({
+        title: 'refresh falhou',
+        subtitle: (error as { reason?: string }).reason,
+        groupId: `refresh-${refreshGroup}`,
+        logType: 'error',
+        data: { error },
+      }))
+      track('sessionExpired', (info) => ({
+        title: 'sessão expirada',
+        subtitle: info.reason,
+        logType: 'warning',
+        data: info,
+      }))
+      track('unauthorized', ({ url, method }) => ({
+        title: '401',
+        subtitle: `${method?.toUpperCase() ?? ''} ${url ?? ''}`.trim(),
+        logType: 'warning',
+        data: { url, method },
+      }))
+      track('requestReplayed', ({ url, method }) => ({
+        title: 'reenvio',
+        subtitle: `${method?.toUpperCase() ?? ''} ${url ?? ''}`.trim(),
+        data: { url, method },
+      }))
+      track('guardRedirect', ({ to, redirect, reason }) => ({
+        title: 'redirect do guard',
+        subtitle: reason,
+        logType: reason === 'forbidden' ? 'warning' : 'default',
+        data: { to, redirect, reason },
+      }))
+      track('impersonationStarted', ({ user, originalUser }) => ({
+        title: 'impersonação iniciada',
+        data: { user, originalUser },
+      }))
+      track('impersonationStopped', ({ user }) => ({
+        title: 'impersonação encerrada',
+        data: { user },
+      }))
+      track('error', ({ message, error }) => ({
+        title: 'erro',
+        subtitle: message,
+        logType: 'error',
+        data: { message, error },
+      }))
+    }
+  )
+}
+
+/**
+ * Tag de status da instância no inspector
+ */
+function inspectStatus(auth: AuthInstance): { label: string; color: number } {
+  if (auth.loading.value) {
+    return { label: 'carregando', color: COLORS.loading }
+  }
+  if (auth.isAuthenticated.value) {
+    return { label: 'autenticado', color: COLORS.authenticated }
+  }
+  return { label: 'visitante', color: COLORS.guest }
+}
+
+/**
+ * Monta o estado exibido no inspector (tokens sempre mascarados)
+ */
+function inspectState(auth: AuthInstance): CustomInspectorState {
+  const expiresAt = auth.expiresAt.value
+  return {
+    state: [
+      { key: 'mode', value: auth.mode },
+      { key: 'loading', value: auth.loading.value },
+      { key: 'isAuthenticated', value: auth.isAuthenticated.value },
+      { key: 'isOnline', value: auth.isOnline.value },
+      { key: 'pendingRequests', value: auth.pendingRequests.value },
+      { key: 'impersonating', value: auth.impersonating.value },
+      { key: 'roles', value: auth.roles.value },
+      { key: 'permissions', value: auth.permissions.value },
+    ],
+    user: [
+      { key: 'user', value: auth.user.value },
+      { key: 'originalUser', value: auth.originalUser.value },
+    ],
+    tokens: [
+      { key: 'token', value: maskToken(auth.token.value) },
+      { key: 'refreshToken', value: maskToken(auth.refreshToken.value) },
+      {
+        key: 'expiresAt',
+        value: expiresAt ? new Date(expiresAt).toISOString() : null,
+      },
+      {
+        key: 'expiresIn (s)',
+        value: expiresAt ? Math.round((expiresAt - Date.now()) / 1000) : null,
+      },
+    ],
+    claims: Object.entries(decodeJwt(auth.token.value) ?? {}).map(
+      ([key, value]) => ({ key, value })
+    ),
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Handler de um evento; eventos sem payload (`void`) não recebem argumento
+ */
+export type EventHandler<P> = [P] extends [void]
+  ? () => void
+  : (payload: P) => void
+
+/**
+ * Emissor de eventos tipado
+ */
+export interface Emitter<Events extends object> {
+  /** Registra um handler; retorna a função para removê-lo */
+  on: <K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>
+  ) => () => void
+  /** Remove um handler registrado */
+  off: <K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>
+  ) => void
+  /** Registra um handler executado apenas uma vez */
+  once: <K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>
+  ) => () => void
+  /** Dispara o evento para todos os handlers registrados */
+  emit: <K extends keyof Events>(
+    event: K,
+    ...payload: [Events[K]] extends [void] ? [] : [Events[K]]
+  ) => void
+}
+
+/**
+ * Cria um emissor de eventos tipado
+ *
+ * Erros lançados por um handler não impedem a execução dos demais.
+ *
+ * @param onHandlerError - Callback para erros lançados pelos handlers
+ * @returns Emitter
+ *
+ * @example
+ * ```ts
+ * const events = createEmitter<{ login: { user: User }; logout: void }>()
+ * const off = events.on('login', ({ user }) => console.log(user))
+ * events.emit('logout')
+ * off()
+ * ```
+ */
+export function createEmitter<Events extends object>(
+  onHandlerError?: (event: keyof Events, error: unknown) => void
+): Emitter<Events> {
+  type AnyHandler = (payload?: unknown) => void
+  const handlers = new Map<keyof Events, Set<AnyHandler>>()
+  // Handlers do `once` por evento: original -> wrapper registrado
+  const onceWrappers = new Map<keyof Events, Map<AnyHandler, AnyHandler>>()
+
+  const off: Emitter<Events>['off'] = (event, handler) => {
+    const set = handlers.get(event)
+    const wrappers = onceWrappers.get(event)
+    const wrapper = wrappers?.get(handler as AnyHandler)
+    wrappers?.delete(handler as AnyHandler)
+    set?.delete(handler as AnyHandler)
+    if (wrapper) set?.delete(wrapper)
+  }
+
+  const on: Emitter<Events>['on'] = (event, handler) => {
+    let set = handlers.get(event)
+    if (!set) {
+      set = new Set()
+      handlers.set(event, set)
+    }
+    set.add(handler as AnyHandler)
+    return () => off(event, handler)
+  }
+
+  const once: Emitter<Events>['once'] = (event, handler) => {
+    const wrapper: AnyHandler = (payload) => {
+      off(event, handler)
+      ;(handler as AnyHandler)(payload)
+    }
+    let wrappers = onceWrappers.get(event)
+    if (!wrappers) {
+      wrappers = new Map()
+      onceWrappers.set(event, wrappers)
+    }
+    wrappers.set(handler as AnyHandler, wrapper)
+    on(event, wrapper as EventHandler<Events[typeof event]>)
+    return () => off(event, handler)
+  }
+
+  const emit: Emitter<Events>['emit'] = (event, ...payload) => {
+    const set = handlers.get(event)
+    if (!set) return
+    for (const handler of [...set]) {
+      try {
+        handler(payload[0])
+      } catch (error) {
+        onHandlerError?.(event, error)
+      }
+    }
+  }
+
+  return { on, off, once, emit }
+}
@@ -0,0 +1,136 @@
+import type {
+  AuthResponse,
+  TokenExtractor,
+  TokenMapping,
+  UserExtractor,
+} from './types'
+
+/**
+ * Lê um valor aninhado por caminho com pontos (ex: 'data.tokens.access')
+ * @param source - Objeto de origem
+ * @param path - Caminho separado por pontos
+ * @returns Valor encontrado ou undefined
+ */
+export function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== 'object') return undefined
+    return (value as Record<string, unknown>)[key]
+  }, source)
+}
+
+/**
+ * Lê um caminho da resposta: `headers.<nome>` lê um header (sem diferenciar
+ * maiúsculas); os demais caminhos são relativos ao corpo
+ */
+function readPath(response: AuthResponse, path: string): unknown {
+  if (path.startsWith('headers.')) {
+    const name = path.slice('headers.'.length)
+    const headers = response.headers || {}
+    return headers[name.toLowerCase()] ?? headers[name]
+  }
+  return getPath(response.data, path)
+}
+
+/**
+ * Converte um timestamp (segundos, ms ou data ISO) para ms
+ */
+function toTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // Valores pequenos são timestamps em segundos (ex: claim `exp`)
+    return value < 1e12 ? value * 1000 : value
+  }
+  if (typeof value === 'string' && value) {
+    const numeric = Number(value)
+    if (Number.isFinite(numeric)) return toTimestamp(numeric)
+    const parsed = Date.parse(value)
+    return Number.isNaN(parsed) ? undefined : parsed
+  }
+  return undefined
+}
+
+/**
+ * Converte um valor em número de segundos
+ */
+function toSeconds(value: unknown): number | undefined {
+  const seconds = typeof value === 'string' ? Number(value) : value
+  return typeof seconds === 'number' && Number.isFinite(seconds)
+    ? seconds
+    : undefined
+}
+
+/**
+ * Cria o extrator de tokens a partir da opção `extractTokens`
+ *
+ * O resultado sempre traz `expiresAt` (ms) quando a resposta informa a
+ * validade, seja por `expiresIn` ou `expiresAt`.
+ *
+ * @param option - Função, caminhos ou undefined (formato padrão)
+ * @param keys - Chaves do formato padrão (`tokenKey`, `refreshTokenKey`)
+ * @returns TokenExtractor
+ * @throws Error se a resposta não tiver token de acesso
+ */
+export function createTokenExtractor(
+  option: TokenExtractor | TokenMapping | undefined,
+  keys: { tokenKey: string; refreshTokenKey: string }
+): TokenExtractor {
+  let extract: TokenExtractor
+  if (typeof option === 'function') {
+    extract = option
+  } else if (option) {
+    extract = (response) => ({
+      accessToken: readPath(response, option.accessToken) as string,
+      refreshToken: option.refreshToken
+        ? (readPath(response, option.refreshToken) as string | null)
+        : null,
+      expiresIn: option.expiresIn
+        ? toSeconds(readPath(response, option.expiresIn))
+        : undefined,
+      expiresAt: option.expiresAt
+        ? toTimestamp(readPath(response, option.expiresAt))
+        : undefined,
+    })
+  } else {
+    extract = ({ data }) => {
+      const body = (data ?? {}) as Record<string, unknown>
+      return {
+        accessToken: (body[keys.tokenKey] ||
+          body.access ||
+          body.token) as string,
+        refreshToken: (body[keys.refreshTokenKey] ||
+          body.refresh ||
+          body.refresh_token) as string | null,
+        expiresIn: toSeconds(body.expires_in),
+      }
+    }
+  }
+
+  return (response) => {
+    const tokens = extract(response)
+    if (!tokens?.accessToken) {
+      throw new Error('[vue-auth] Access token not found in the response')
+    }
+
+    const { expiresIn, expiresAt } = tokens
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken || null,
+      expiresIn,
+      expiresAt:
+        expiresAt ??
+        (expiresIn !== undefined ? Date.now() + expiresIn * 1000 : undefined),
+    }
+  }
+}
+
+/**
+ * Cria o extrator do usuário a partir da opção `extractUser`
+ * @param option - Função, caminho no corpo ou undefined (corpo inteiro)
+ * @returns UserExtractor
+ */
+export function createUserExtractor<T>(
+  option?: UserExtractor<T> | string
+): UserExtractor<T> {
+  if (typeof option === 'function') return option
+  if (option) return ({ data }) => getPath(data, option) as T
+  return ({ data }) => data as T
+}
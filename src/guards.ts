@@ -3,16 +3,22 @@ import type {
   RouteLocationNormalized,
   NavigationGuardNext,
 } from 'vue-router'
-import type { AuthInstance, GuardOptions } from './types'
+import type { AccessRule, AuthInstance, GuardOptions } from './types'
 import { waitForRef } from './utils'
+import { createLogger } from './logger'
+import { isExternalUrl, toRouteLocation } from './redirect'
 
 /**
  * Configura os guards do Vue Router para autenticação
  *
  * Funcionalidades:
- * - Redireciona usuários não autenticados para login
- * - Redireciona usuários autenticados que tentam acessar login
+ * - Redireciona usuários não autenticados para login, salvando o destino
+ * - Redireciona usuários autenticados que tentam acessar login para o
+ *   destino validado (`query.redirect`), evitando open redirect
  * - Suporta rotas públicas e privadas via meta
+ * - Verifica roles/permissões exigidas via `meta.roles` / `meta.permissions`
+ * - Com várias instâncias, trata apenas as rotas com `meta.authInstance`
+ *   igual ao nome da instância (rotas sem a meta pertencem à 'default')
  * - Limpa query params de logout após processamento
  *
  * @param router - Vue Router instance
@@ -24,13 +30,20 @@ import { waitForRef } from './utils'
  * // Configuração de rotas
  * const routes = [
  *   { path: '/login', name: 'login', meta: { public: true } },
- *   { path: '/dashboard', name: 'dashboard', meta: { auth: true } }
+ *   { path: '/dashboard', name: 'dashboard', meta: { auth: true } },
+ *   { path: '/admin', name: 'admin', meta: { roles: ['admin'] } },
+ *   {
+ *     path: '/reports',
+ *     name: 'reports',
+ *     meta: { permissions: { all: ['reports.view', 'reports.export'] } }
+ *   }
  * ]
  *
  * setupGuards(router, auth, {
  *   loginRouteName: 'login',
  *   publicMetaKey: 'public',
- *   authMetaKey: 'auth'
+ *   authMetaKey: 'auth',
+ *   forbiddenRouteName: 'forbidden'
  * })
  * ```
  */
@@ -40,11 +53,18 @@ export function setupGuards(
   options: GuardOptions = {}
 ): void {
   const {
+    name = 'default',
+    instanceMetaKey = 'authInstance',
     loginRouteName = 'login',
     resetPasswordRouteName = 'redefinir-senha',
     publicMetaKey = 'public',
     authMetaKey = 'auth',
     defaultRedirect = '/',
+    rolesMetaKey = 'roles',
+    permissionsMetaKey = 'permissions',
+    forbiddenRouteName,
+    onForbidden,
+    logger = createLogger(),
   } = options
 
   router.beforeEach(
@@ -53,7 +73,20 @@ export function setupGuards(
       from: RouteLocationNormalized,
       next: NavigationGuardNext
     ) => {
-      const requiresAuth = to.matched.some((record) => record.meta[authMetaKey])
+      // Rotas de outra instância são tratadas pelos guards dela
+      const routeInstance = [...to.matched]
+        .reverse()
+        .find((record) => record.meta[instanceMetaKey])?.meta[instanceMetaKey]
+      if ((routeInstance || 'default') !== name) {
+        return next()
+      }
+
+      const roleRules = collectRules(to, rolesMetaKey)
+      const permissionRules = collectRules(to, permissionsMetaKey)
+      const requiresAccess = roleRules.length > 0 || permissionRules.length > 0
+      const requiresAuth =
+        requiresAccess ||
+        to.matched.some((record) => record.meta[authMetaKey])
       const isPublic = to.matched.some((record) => record.meta[publicMetaKey])
       const isLoginPages =
         to.name === loginRouteName || to.name === resetPasswordRouteName
@@ -63,7 +96,9 @@ export function setupGuards(
         try {
           await waitForRef(auth.loading, (v: boolean) => v === false)
         } catch (e) {
-          console.warn('[vue-auth] Timeout waiting for auth loading')
+          logger.warn('Timeout aguardando carregamento do auth', {
+            to: to.fullPath,
+          })
         }
       }
 
@@ -79,21 +114,93 @@ export function setupGuards(
 
       // Já autenticado tentando acessar login
       if (isLoginPages && auth.isAuthenticated.value) {
-        const redirectPath = (to.query.redirect as string) || defaultRedirect
-        return next({ path: redirectPath, replace: true })
+        const target =
+          (await auth._returnTo?.resolve(to.query.redirect)) || defaultRedirect
+        auth._emit?.('guardRedirect', {
+          to: to.fullPath,
+          redirect: target,
+          reason: 'authenticated',
+        })
+        if (isExternalUrl(target)) {
+          window.location.assign(target)
+          return next(false)
+        }
+        return next(toRouteLocation(router, target))
       }
 
       // Verificar autenticação para rotas protegidas
       if (requiresAuth && !auth.isAuthenticated.value) {
-        return next({
+        logger.debug('Rota protegida, redirecionando para login', {
+          to: to.fullPath,
+        })
+        // Salvo para sobreviver a reloads e ao redirect do OAuth
+        await auth._returnTo?.save(to.fullPath)
+        const login = {
           name: loginRouteName,
           query: {
             redirect: to.fullPath,
           },
+        }
+        auth._emit?.('guardRedirect', {
+          to: to.fullPath,
+          redirect: router.resolve(login).fullPath,
+          reason: 'unauthenticated',
         })
+        return next(login)
+      }
+
+      // Verificar roles/permissões (todas as rotas do match devem passar)
+      if (
+        requiresAccess &&
+        (!roleRules.every((rule) => auth.hasRole(rule)) ||
+          !permissionRules.every((rule) => auth.can(rule)))
+      ) {
+        logger.info('Acesso negado à rota', {
+          to: to.fullPath,
+          roles: roleRules,
+          permissions: permissionRules,
+        })
+        const forbidden = (redirect: string | null) =>
+          auth._emit?.('guardRedirect', {
+            to: to.fullPath,
+            redirect,
+            reason: 'forbidden',
+          })
+        const result = onForbidden?.(to, from)
+        if (result === false) {
+          forbidden(null)
+          return next(false)
+        }
+        if (result !== undefined) {
+          forbidden(router.resolve(result).fullPath)
+          return next(result)
+        }
+        if (forbiddenRouteName && to.name !== forbiddenRouteName) {
+          const location = {
+            name: forbiddenRouteName,
+            query: { from: to.fullPath },
+            replace: true,
+          }
+          forbidden(router.resolve(location).fullPath)
+          return next(location)
+        }
+        forbidden(null)
+        return next(false)
       }
 
       next()
     }
   )
 }
+
+/**
+ * Coleta as regras de acesso declaradas na meta de cada rota do match
+ */
+function collectRules(
+  to: RouteLocationNormalized,
+  metaKey: string
+): AccessRule[] {
+  return to.matched
+    .map((record) => record.meta[metaKey] as AccessRule | undefined)
+    .filter((rule): rule is AccessRule => rule !== undefined && rule !== null)
+}
@@ -0,0 +1,165 @@
+import { ref, computed } from 'vue'
+import type { IdleOptions, IdleState } from './types'
+
+/** Eventos considerados atividade do usuário */
+const DEFAULT_EVENTS = [
+  'mousemove',
+  'mousedown',
+  'keydown',
+  'touchstart',
+  'wheel',
+  'scroll',
+]
+
+/** Intervalo mínimo (ms) entre gravações da última atividade no storage */
+const WRITE_THROTTLE = 1000
+
+/**
+ * Controlador do monitoramento de inatividade
+ */
+export interface IdleTracker extends IdleState {
+  /** Inicia o monitoramento (usuário autenticado) */
+  start: () => void
+  /** Interrompe o monitoramento (logout) */
+  stop: () => void
+}
+
+/**
+ * Cria o monitoramento de inatividade
+ *
+ * A última atividade é compartilhada entre abas via localStorage: atividade
+ * em qualquer aba mantém a sessão viva em todas. Abrir ou recarregar uma aba
+ * não conta como atividade. Durante o aviso, os eventos de atividade são
+ * ignorados e a sessão só é estendida via `extend()`.
+ *
+ * @param options - Idle options
+ * @param onTimeout - Callback executado quando o tempo de inatividade esgota;
+ *   `leader` é true apenas na primeira aba a esgotar o tempo
+ * @returns IdleTracker
+ */
+export function createIdleTracker(
+  options: IdleOptions & { storageKey: string },
+  onTimeout: (leader: boolean) => void
+): IdleTracker {
+  const {
+    timeout,
+    warningTime = 60 * 1000,
+    events = DEFAULT_EVENTS,
+    interval = 1000,
+    storageKey,
+  } = options
+
+  const remaining = ref(timeout)
+  const running = ref(false)
+  const idle = ref(false)
+
+  let lastActivity = Date.now()
+  let lastWrite = 0
+  let timer: ReturnType<typeof setInterval> | null = null
+
+  const readShared = (): number => {
+    try {
+      return Number(localStorage.getItem(storageKey)) || 0
+    } catch {
+      return 0
+    }
+  }
+
+  const writeShared = (now: number, force = false): void => {
+    if (!force && now - lastWrite < WRITE_THROTTLE) return
+    lastWrite = now
+    try {
+      localStorage.setItem(storageKey, String(now))
+    } catch {
+      // localStorage indisponível: sem sincronização entre abas
+    }
+  }
+
+  /**
+   * Marca o timeout da última atividade; false se outra aba já o marcou
+   */
+  const claimTimeout = (activity: number): boolean => {
+    const key = `${storageKey}:timeout`
+    try {
+      if (localStorage.getItem(key) === String(activity)) return false
+      localStorage.setItem(key, String(activity))
+    } catch {
+      // localStorage indisponível: cada aba faz o próprio logout
+    }
+    return true
+  }
+
+  const stop = (): void => {
+    if (!running.value) return
+    running.value = false
+    events.forEach((event) => window.removeEventListener(event, onActivity))
+    document.removeEventListener('visibilitychange', onVisibilityChange)
+    if (timer) {
+      clearInterval(timer)
+      timer = null
+    }
+  }
+
+  const tick = (): void => {
+    const now = Date.now()
+    lastActivity = Math.max(lastActivity, readShared())
+    remaining.value = Math.max(0, lastActivity + timeout - now)
+
+    if (remaining.value === 0) {
+      stop()
+      idle.value = true
+      // A atividade compartilhada identifica o timeout em todas as abas
+      onTimeout(claimTimeout(readShared() || lastActivity))
+    }
+  }
+
+  const extend = (): void => {
+    const now = Date.now()
+    lastActivity = now
+    writeShared(now, true)
+    if (running.value) {
+      remaining.value = timeout
+    }
+  }
+
+  const onActivity = (): void => {
+    if (remaining.value <= warningTime) return
+    const now = Date.now()
+    lastActivity = now
+    writeShared(now)
+  }
+
+  const onVisibilityChange = (): void => {
+    // Timers são atrasados em segundo plano: reavalia ao voltar para a aba
+    if (document.visibilityState === 'visible') tick()
+  }
+
+  const start = (): void => {
+    if (running.value) return
+    running.value = true
+    idle.value = false
+    // Continua a contagem compartilhada: abrir ou recarregar a aba não
+    // estende a sessão das demais
+    const shared = readShared()
+    lastActivity = shared || Date.now()
+    if (!shared) writeShared(lastActivity, true)
+    remaining.value = Math.max(0, lastActivity + timeout - Date.now())
+    events.forEach((event) =>
+      window.addEventListener(event, onActivity, { passive: true })
+    )
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    timer = setInterval(tick, interval)
+  }
+
+  return {
+    isIdle: computed(() => idle.value),
+    remainingMs: computed(() => (running.value ? remaining.value : timeout)),
+    warningActive: computed(
+      () =>
+        running.value && remaining.value > 0 && remaining.value <= warningTime
+    ),
+    extend,
+    start,
+    stop,
+  }
+}
@@ -1,14 +1,58 @@
-import { inject, type App, type InjectionKey } from 'vue'
+import {
+  inject,
+  getCurrentScope,
+  onScopeDispose,
+  type App,
+  type InjectionKey,
+} from 'vue'
 import type { AxiosInstance } from 'axios'
 import type { Router } from 'vue-router'
 import { createAuthCore } from './auth'
+import { localStorageAdapter, sessionStorageAdapter } from './storage'
 import { setupInterceptors } from './interceptors'
 import { setupGuards } from './guards'
-import type { AuthOptions, AuthInstance, AuthPlugin, User } from './types'
+import { setupOAuthCallback } from './oauth'
+import { registerAuthComponents } from './components'
+import { setupDevtools, isDevtoolsEnabled } from './devtools'
+import { createLogger } from './logger'
+import type { EventHandler } from './events'
+import type {
+  AuthOptions,
+  AuthInstance,
+  AuthPlugin,
+  AuthEventMap,
+  IdleState,
+  SessionExpiredInfo,
+  User,
+} from './types'
+
+/** Nome da instância padrão do auth */
+export const DEFAULT_AUTH_NAME = 'default'
 
 /** Chave do provide/inject para o auth */
 export const AUTH_INJECTION_KEY: InjectionKey<AuthInstance> = Symbol('vue-auth')
 
+/** Chaves do provide/inject por nome de instância */
+const injectionKeys = new Map<string, InjectionKey<AuthInstance>>([
+  [DEFAULT_AUTH_NAME, AUTH_INJECTION_KEY],
+])
+
+/**
+ * Retorna a chave do provide/inject de uma instância nomeada
+ * @param name - Nome da instância (padrão: 'default')
+ * @returns InjectionKey da instância
+ */
+export function getAuthInjectionKey(
+  name: string = DEFAULT_AUTH_NAME
+): InjectionKey<AuthInstance> {
+  let key = injectionKeys.get(name)
+  if (!key) {
+    key = Symbol(`vue-auth:${name}`)
+    injectionKeys.set(name, key)
+  }
+  return key
+}
+
 /**
  * Cria o plugin de autenticação para Vue 3
  *
@@ -33,8 +77,8 @@ export const AUTH_INJECTION_KEY: InjectionKey<AuthInstance> = Symbol('vue-auth')
  *     refresh: '/api/auth/refresh',
  *     user: '/api/auth/me'
  *   },
- *   onSessionExpired: () => {
- *     console.log('Sessão expirou!')
+ *   onSessionExpired: ({ reason }) => {
+ *     console.log('Sessão expirou!', reason)
  *   },
  *   onLogin: (user) => {
  *     console.log('Usuário logado:', user)
@@ -48,8 +92,11 @@ export const AUTH_INJECTION_KEY: InjectionKey<AuthInstance> = Symbol('vue-auth')
  */
 export function createAuth<T = User>(options: AuthOptions<T>): AuthPlugin {
   const {
+    name = DEFAULT_AUTH_NAME,
     http,
     router,
+    mode,
+    csrf,
     // Callbacks
     onSessionExpired,
     onError,
@@ -59,15 +106,43 @@ export function createAuth<T = User>(options: AuthOptions<T>): AuthPlugin {
     // Config
     endpoints,
     storage,
+    sessionOnlyStorage,
+    rememberByDefault,
     tokenKey,
     refreshTokenKey,
+    extractTokens,
+    extractUser,
     maxRetries,
+    retryPolicy,
+    offline,
+    logoutTimeout,
+    detectChallenge,
+    oauth,
+    initialState,
+    idle,
+    userCache,
+    logger: customLogger,
+    logLevel,
+    devtools,
+    autoRefresh,
+    refreshLeeway,
+    syncTabs,
+    syncChannel,
     // Guards config
+    instanceMetaKey,
     loginRouteName,
     resetPasswordRouteName,
     publicMetaKey,
     authMetaKey,
     defaultRedirect,
+    returnTo,
+    rolesMetaKey,
+    permissionsMetaKey,
+    forbiddenRouteName,
+    onForbidden,
+    // Access control
+    getRoles,
+    getPermissions,
   } = options
 
   let authInstance: AuthInstance<T> | null = null
@@ -80,18 +155,88 @@ export function createAuth<T = User>(options: AuthOptions<T>): AuthPlugin {
       if (!router) {
         throw new Error('[vue-auth] Vue Router instance is required')
       }
+      if (mode === 'cookie' && oauth) {
+        throw new Error(
+          '[vue-auth] OAuth login is not supported in cookie mode'
+        )
+      }
+
+      const logger = createLogger({ level: logLevel, logger: customLogger })
+
+      // Instâncias nomeadas usam storage, canal e rotas próprios
+      const isDefault = name === DEFAULT_AUTH_NAME
+      const scopedOAuth =
+        oauth && !isDefault
+          ? {
+              transactionKey: `vue-auth:${name}:oauth`,
+              callbackPath: `/auth/${name}/callback`,
+              callbackRouteName: `${name}-oauth-callback`,
+              ...oauth,
+            }
+          : oauth
+
+      const handleSessionExpired = (info: SessionExpiredInfo) => {
+        logger.info('Sessão expirada', {
+          reason: info.reason,
+          status: info.status,
+        })
+        authInstance!._emit?.('sessionExpired', info)
+        if (onSessionExpired) {
+          onSessionExpired(info)
+          return
+        }
+        authInstance!.clearAuth()
+        router.replace({
+          name: loginRouteName || 'login',
+          query: { expired: 'true' },
+        })
+      }
 
       // 1. Criar lógica de auth
       authInstance = createAuthCore<T>(http, router, {
+        name,
+        mode,
         endpoints,
-        storage,
+        storage:
+          storage ||
+          (isDefault ? undefined : localStorageAdapter({ prefix: `${name}:` })),
+        sessionOnlyStorage:
+          sessionOnlyStorage ||
+          (isDefault
+            ? undefined
+            : sessionStorageAdapter({ prefix: `${name}:` })),
+        rememberByDefault,
         tokenKey,
         refreshTokenKey,
+        extractTokens,
+        extractUser,
         maxRetries,
+        retryPolicy,
+        offline,
+        logoutTimeout,
+        autoRefresh,
+        refreshLeeway,
+        syncTabs,
+        syncChannel:
+          syncChannel || (isDefault ? undefined : `vue-auth:${name}`),
+        logger,
+        onSessionExpired: handleSessionExpired,
         onError,
         onLogin,
         onLogout,
         onFetchUser,
+        loginRouteName,
+        defaultRedirect,
+        returnTo: isDefault
+          ? returnTo
+          : { key: `vue-auth:${name}:return-to`, ...returnTo },
+        getRoles,
+        getPermissions,
+        detectChallenge,
+        oauth: scopedOAuth,
+        initialState,
+        idle,
+        userCache,
       })
 
       // 2. Adicionar referências internas para os interceptors
@@ -100,34 +245,66 @@ export function createAuth<T = User>(options: AuthOptions<T>): AuthPlugin {
 
       // 3. Configurar interceptors
       setupInterceptors(authInstance as unknown as AuthInstance, http, {
-        onSessionExpired:
-          onSessionExpired ||
-          (() => {
-            authInstance!.clearAuth()
-            router.replace({
-              name: loginRouteName || 'login',
-              query: { expired: 'true' },
-            })
-          }),
+        name,
+        mode,
+        csrf,
+        onSessionExpired: handleSessionExpired,
+        offline,
+        logger,
       })
 
       // 4. Configurar guards
       setupGuards(router, authInstance as unknown as AuthInstance, {
+        name,
+        instanceMetaKey,
         loginRouteName,
         resetPasswordRouteName,
         publicMetaKey,
         authMetaKey,
         defaultRedirect,
+        rolesMetaKey,
+        permissionsMetaKey,
+        forbiddenRouteName,
+        onForbidden,
+        logger,
       })
 
-      // 5. Inicializar
+      // 4.1. Registrar a rota de callback do OAuth
+      if (scopedOAuth) {
+        setupOAuthCallback(router, authInstance as unknown as AuthInstance, {
+          callbackPath: scopedOAuth.callbackPath || '/auth/callback',
+          callbackRouteName:
+            scopedOAuth.callbackRouteName || 'oauth-callback',
+          loginRouteName: loginRouteName || 'login',
+          defaultRedirect: defaultRedirect || '/',
+          publicMetaKey: publicMetaKey || 'public',
+        })
+      }
+
+      // 5. Inicializar (e encerrar o canal entre abas no unmount)
       authInstance.initialize()
+      app.onUnmount(() => authInstance?._dispose?.())
 
       // 6. Disponibilizar via provide/inject
-      app.provide(AUTH_INJECTION_KEY, authInstance as unknown as AuthInstance)
+      const providedAuth = authInstance as unknown as AuthInstance
+      app.provide(getAuthInjectionKey(name), providedAuth)
+
+      // 7. Disponibilizar globalmente via $auth (padrão) e $auths[name]
+      const globals = app.config.globalProperties
+      globals.$auths = { ...globals.$auths, [name]: providedAuth }
+      if (isDefault) {
+        globals.$auth = providedAuth
+      }
+
+      // 8. Registrar <AuthGate>, <RequireAuth>, v-auth e v-guest
+      registerAuthComponents(app)
 
-      // 7. Disponibilizar globalmente via $auth
-      app.config.globalProperties.$auth = authInstance
+      // 9. Inspector e timeline no Vue Devtools
+      if (devtools ?? isDevtoolsEnabled()) {
+        setupDevtools(app, authInstance as unknown as AuthInstance, {
+          logger,
+        })
+      }
     },
   }
 }
@@ -135,6 +312,7 @@ export function createAuth<T = User>(options: AuthOptions<T>): AuthPlugin {
 /**
  * Composable para acessar o auth em componentes Vue
  *
+ * @param name - Nome da instância (padrão: 'default')
  * @returns Instância do Auth com state reativo e métodos
  * @throws Error se o plugin não foi instalado
  *
@@ -179,29 +357,166 @@ export function createAuth<T = User>(options: AuthOptions<T>): AuthPlugin {
  * </template>
  * ```
  */
-export function useAuth<T = User>(): AuthInstance<T> {
-  const auth = inject<AuthInstance<T>>(AUTH_INJECTION_KEY)
+export function useAuth<T = User>(
+  name: string = DEFAULT_AUTH_NAME
+): AuthInstance<T> {
+  const auth = inject<AuthInstance<T>>(
+    getAuthInjectionKey(name) as InjectionKey<AuthInstance<T>>
+  )
   if (!auth) {
     throw new Error(
-      '[vue-auth] Auth plugin not installed. Make sure to call app.use(createAuth(...))'
+      name === DEFAULT_AUTH_NAME
+        ? '[vue-auth] Auth plugin not installed. Make sure to call app.use(createAuth(...))'
+        : `[vue-auth] Auth instance "${name}" not installed. Make sure to call app.use(createAuth({ name: '${name}', ... }))`
     )
   }
   return auth
 }
 
+/**
+ * Composable para escutar eventos do auth em componentes Vue
+ *
+ * O handler é removido automaticamente quando o componente (ou effect
+ * scope) é desmontado.
+ *
+ * @param event - Nome do evento
+ * @param handler - Handler do evento
+ * @param name - Nome da instância (padrão: 'default')
+ * @returns Função para remover o handler antes do unmount
+ *
+ * @example
+ * ```ts
+ * useAuthEvent('tokenRefreshed', ({ token }) => {
+ *   socket.reconnect(token)
+ * })
+ *
+ * useAuthEvent('sessionExpired', ({ reason }) => {
+ *   notify(reason === 'revoked' ? 'Sessão encerrada' : 'Sua sessão expirou')
+ * })
+ * ```
+ */
+export function useAuthEvent<K extends keyof AuthEventMap<T>, T = User>(
+  event: K,
+  handler: EventHandler<AuthEventMap<T>[K]>,
+  name: string = DEFAULT_AUTH_NAME
+): () => void {
+  const auth = useAuth<T>(name)
+  const off = auth.on(event, handler)
+  if (getCurrentScope()) {
+    onScopeDispose(off)
+  }
+  return off
+}
+
+/**
+ * Composable para o logout por inatividade (requer a opção `idle`)
+ *
+ * @param name - Nome da instância (padrão: 'default')
+ * @returns Estado reativo da inatividade
+ * @throws Error se a opção `idle` não foi configurada
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * import { useIdle } from 'novadata-vue-auth'
+ *
+ * const { warningActive, remainingMs, extend } = useIdle()
+ * </script>
+ *
+ * <template>
+ *   <dialog :open="warningActive">
+ *     Você será desconectado em {{ Math.ceil(remainingMs / 1000) }}s
+ *     <button @click="extend">Continuar conectado</button>
+ *   </dialog>
+ * </template>
+ * ```
+ */
+export function useIdle(name: string = DEFAULT_AUTH_NAME): IdleState {
+  const auth = useAuth(name)
+  if (!auth.idle) {
+    throw new Error(
+      '[vue-auth] Idle timeout not enabled. Configure the `idle` option in createAuth(...)'
+    )
+  }
+  return auth.idle
+}
+
 // Re-export utils
-export { waitForRef, sleep } from './utils'
+export { waitForRef, sleep, isBrowser } from './utils'
+export { decodeJwt, getTokenExpiration } from './jwt'
+export { createLogger, consoleLogger } from './logger'
+export { defaultDetectChallenge } from './auth'
+export { OAuthError } from './oauth'
+export { RefreshError } from './retry'
+export { isNetworkError } from './network'
+export { sanitizeRedirect } from './redirect'
+export { AuthGate, RequireAuth, vAuth, vGuest } from './components'
+export {
+  createAuthStorage,
+  withNamespace,
+  localStorageAdapter,
+  sessionStorageAdapter,
+  memoryStorageAdapter,
+  cookieStorageAdapter,
+  requestCookieStorage,
+  readCookie,
+} from './storage'
 
 // Re-export types
 export type {
   AuthStorage,
+  KeyValueStore,
+  MaybePromise,
+  AuthLogger,
+  LogLevel,
+  LogContext,
   AuthEndpoints,
   AuthOptions,
   AuthInstance,
   AuthPlugin,
+  AuthSnapshot,
+  ImpersonationFrame,
+  IdleOptions,
+  IdleState,
+  UserCacheOptions,
+  AuthMode,
+  CsrfOptions,
+  AuthResponse,
+  AuthTokens,
+  TokenExtractor,
+  TokenMapping,
+  UserExtractor,
+  RetryPolicyOptions,
+  OfflineOptions,
+  SessionExpiredInfo,
+  SessionExpiredReason,
+  RefreshFailureReason,
+  LogoutOptions,
+  LogoutReason,
   LoginCredentials,
+  LoginOptions,
   LoginResult,
+  LoginChallenge,
+  ChallengeDetector,
+  OAuthOptions,
+  OAuthRedirectOptions,
+  ReturnToOptions,
   User,
   GuardOptions,
   InterceptorOptions,
+  AccessRule,
+  AccessExtractor,
+  ForbiddenHandler,
+  AuthEventMap,
+  AuthEventName,
+  GuardRedirectReason,
 } from './types'
+export type { EventHandler } from './events'
+export type { AccessRequirement, AuthDirectiveValue } from './components'
+export type { JwtClaims } from './jwt'
+export type { LoggerOptions } from './logger'
+export type {
+  StorageAdapterOptions,
+  CookieStorageOptions,
+  RequestCookieStorageOptions,
+} from './storage'
@@ -8,12 +8,33 @@ import type {
   AuthAxiosRequestConfig,
   InterceptorOptions,
 } from './types'
+import { createLogger } from './logger'
+import { createCsrfHandler } from './csrf'
+
+/**
+ * Requisição aguardando o término de um refresh em andamento
+ */
+interface PendingRequest {
+  resolve: (token: string) => void
+  reject: (error: unknown) => void
+}
+
+/**
+ * Instâncias do auth instaladas em cada Axios
+ */
+const instancesByHttp = new WeakMap<AxiosInstance, Set<string>>()
 
 /**
  * Configura os interceptors do Axios para autenticação
  *
  * - Request: Adiciona automaticamente o token no header Authorization
  * - Response: Trata erros 401 e tenta refresh automático do token
+ *   (um único refresh por vez; demais requisições aguardam em fila,
+ *   limitada em tamanho e tempo, inclusive enquanto estiver offline)
+ *
+ * No modo `cookie`, nenhum token é enviado: as requisições usam
+ * `withCredentials`, levam o token CSRF nos métodos não seguros e um 401
+ * encerra a sessão diretamente (não há refresh).
  *
  * @param auth - Auth instance
  * @param http - Axios instance
@@ -33,11 +54,118 @@ export function setupInterceptors(
   http: AxiosInstance,
   options: InterceptorOptions = {}
 ): void {
-  const { onSessionExpired } = options
+  const {
+    name = 'default',
+    mode = 'token',
+    csrf: csrfOptions,
+    onSessionExpired,
+    offline: { maxQueueSize = 50, queueTimeout = 30000 } = {},
+    logger = createLogger(),
+  } = options
+  const network = auth._network
+  const cookieMode = mode === 'cookie'
+  const csrf = cookieMode ? createCsrfHandler(csrfOptions) : null
+
+  const instances = instancesByHttp.get(http) ?? new Set<string>()
+  instancesByHttp.set(http, instances.add(name))
+
+  /**
+   * Requisições marcadas com outra instância são ignoradas por estes
+   * interceptors. Sem marcação, pertencem à dona do Axios ou, se ele for
+   * compartilhado, à instância 'default' (como as rotas sem
+   * `meta.authInstance`)
+   */
+  const belongsToOtherInstance = (config?: { authInstance?: string }) => {
+    const owner = instances.size > 1 ? 'default' : name
+    return (config?.authInstance ?? owner) !== name
+  }
+
+  // Estado do refresh compartilhado entre as requisições que receberam 401
+  let isRefreshing = false
+  let pendingQueue: PendingRequest[] = []
+
+  /**
+   * Coloca a requisição na fila do refresh em andamento, com timeout
+   */
+  const enqueue = (request: AuthAxiosRequestConfig): Promise<string> => {
+    if (pendingQueue.length >= maxQueueSize) {
+      logger.warn('Fila de requisições cheia, requisição rejeitada', {
+        endpoint: request.url,
+        maxQueueSize,
+      })
+      return Promise.reject(
+        new Error('[vue-auth] Too many requests waiting for token refresh')
+      )
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      const entry: PendingRequest = {
+        resolve: (token) => {
+          settle()
+          resolve(token)
+        },
+        reject: (error) => {
+          settle()
+          reject(error)
+        },
+      }
+      const timer = setTimeout(() => {
+        pendingQueue = pendingQueue.filter((item) => item !== entry)
+        logger.warn('Tempo esgotado aguardando o refresh', {
+          endpoint: request.url,
+          timeout: queueTimeout,
+        })
+        entry.reject(
+          new Error('[vue-auth] Timed out waiting for token refresh')
+        )
+      }, queueTimeout)
+      function settle() {
+        clearTimeout(timer)
+        network?.trackPending(-1)
+      }
+      network?.trackPending(1)
+      pendingQueue.push(entry)
+    })
+  }
+
+  /**
+   * Libera as requisições que aguardavam o refresh
+   */
+  const flushQueue = (error: unknown, token: string | null): void => {
+    const queue = pendingQueue
+    pendingQueue = []
+    queue.forEach(({ resolve, reject }) => {
+      if (error || !token) {
+        reject(error)
+      } else {
+        resolve(token)
+      }
+    })
+  }
+
+  /**
+   * Reenvia a requisição original com o novo token
+   */
+  const replay = (request: AuthAxiosRequestConfig, token: string) => {
+    request.headers.Authorization = `Bearer ${token}`
+    auth._emit?.('requestReplayed', {
+      url: request.url,
+      method: request.method,
+    })
+    return http(request)
+  }
 
   // Request interceptor - Adiciona token no header
   http.interceptors.request.use(
     (config: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
+      if (belongsToOtherInstance(config)) {
+        return config
+      }
+      if (cookieMode) {
+        config.withCredentials = true
+        csrf?.apply(config)
+        return config
+      }
       const token = auth.token.value
       if (token) {
         config.headers.Authorization = `Bearer ${token}`
@@ -49,9 +177,13 @@ export function setupInterceptors(
 
   // Response interceptor - Lida com 401 e refresh token
   http.interceptors.response.use(
-    (response) => response,
+    (response) => {
+      csrf?.capture(response.headers)
+      return response
+    },
     async (error: AxiosError) => {
       const originalRequest = error.config as AuthAxiosRequestConfig | undefined
+      csrf?.capture(error.response?.headers)
 
       // Ignorar se não for erro 401
       if (error.response?.status !== 401) {
@@ -59,13 +191,37 @@ export function setupInterceptors(
       }
 
       // Ignorar requisições marcadas para não fazer refresh
-      if (originalRequest?._skipAuthRefresh) {
+      if (
+        originalRequest?._skipAuthRefresh ||
+        belongsToOtherInstance(originalRequest)
+      ) {
+        return Promise.reject(error)
+      }
+
+      auth._emit?.('unauthorized', {
+        url: originalRequest?.url,
+        method: originalRequest?.method,
+      })
+
+      // Sessão em cookie: sem refresh, o 401 encerra a sessão
+      if (cookieMode) {
+        if (auth.isAuthenticated.value) {
+          logger.warn('401 com sessão em cookie, sessão expirada', {
+            status: 401,
+            endpoint: originalRequest?.url,
+          })
+          onSessionExpired?.({ reason: 'unauthorized', status: 401, error })
+        }
         return Promise.reject(error)
       }
 
       // Evitar loop: se já tentou refresh, não tenta novamente
       if (originalRequest?._retry) {
-        onSessionExpired?.()
+        logger.warn('401 após refresh, sessão expirada', {
+          status: 401,
+          endpoint: originalRequest.url,
+        })
+        onSessionExpired?.({ reason: 'unauthorized', status: 401, error })
         return Promise.reject(error)
       }
 
@@ -74,20 +230,59 @@ export function setupInterceptors(
         return Promise.reject(error)
       }
 
-      if (originalRequest) {
-        originalRequest._retry = true
+      if (!originalRequest) {
+        return Promise.reject(error)
       }
 
+      originalRequest._retry = true
+
+      // A requisição saiu com um token antigo que já foi renovado
+      const sentToken = String(originalRequest.headers.Authorization || '')
+      const currentToken = auth.token.value
+      if (
+        !isRefreshing &&
+        currentToken &&
+        sentToken !== `Bearer ${currentToken}`
+      ) {
+        logger.debug('Reenviando requisição com token já renovado', {
+          endpoint: originalRequest.url,
+        })
+        return replay(originalRequest, currentToken)
+      }
+
+      // Já existe um refresh em andamento: aguarda na fila
+      if (isRefreshing) {
+        logger.debug('Requisição aguardando refresh em andamento', {
+          endpoint: originalRequest.url,
+          queued: pendingQueue.length + 1,
+        })
+        return enqueue(originalRequest).then((token) =>
+          replay(originalRequest, token)
+        )
+      }
+
+      isRefreshing = true
+      logger.debug('401 recebido, iniciando refresh', {
+        status: 401,
+        endpoint: originalRequest.url,
+      })
+
+      network?.trackPending(1)
       try {
         const newToken = await auth.refreshAccessToken()
-        if (originalRequest) {
-          originalRequest.headers.Authorization = `Bearer ${newToken}`
-          return http(originalRequest)
-        }
-        return Promise.reject(error)
+        flushQueue(null, newToken)
+        return replay(originalRequest, newToken)
       } catch (refreshError) {
-        onSessionExpired?.()
+        logger.warn('Refresh falhou, rejeitando requisições pendentes', {
+          endpoint: originalRequest.url,
+          pending: pendingQueue.length,
+        })
+        // O core já notificou o fim da sessão (onSessionExpired)
+        flushQueue(refreshError, null)
         return Promise.reject(refreshError)
+      } finally {
+        isRefreshing = false
+        network?.trackPending(-1)
       }
     }
   )
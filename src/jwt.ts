@@ -0,0 +1,80 @@
+/**
+ * Claims padrão de um JWT (demais claims ficam disponíveis via index)
+ */
+export interface JwtClaims {
+  [key: string]: unknown
+  /** Expiração (segundos desde epoch) */
+  exp?: number
+  /** Emissão (segundos desde epoch) */
+  iat?: number
+  /** Subject */
+  sub?: string
+}
+
+/**
+ * Decodifica o payload de um JWT sem validar a assinatura
+ * @param token - JWT string
+ * @returns Claims do token ou null se o token não for um JWT válido
+ *
+ * @example
+ * ```ts
+ * const claims = decodeJwt(auth.token.value)
+ * console.log(claims?.exp)
+ * ```
+ */
+export function decodeJwt<C extends JwtClaims = JwtClaims>(
+  token: string | null | undefined
+): C | null {
+  if (!token) return null
+
+  const parts = token.split('.')
+  if (parts.length < 2 || !parts[1]) return null
+
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/')
+    const padded = base64.padEnd(
+      base64.length + ((4 - (base64.length % 4)) % 4),
+      '='
+    )
+    const binary = atob(padded)
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    const payload = JSON.parse(new TextDecoder().decode(bytes))
+    return payload && typeof payload === 'object' ? (payload as C) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Retorna o instante de expiração do token em milissegundos
+ * @param token - JWT string
+ * @returns Timestamp em ms ou null se o token não tiver `exp`
+ */
+export function getTokenExpiration(
+  token: string | null | undefined
+): number | null {
+  const exp = decodeJwt(token)?.exp
+  return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null
+}
+
+/**
+ * Gera um JWT sem assinatura válida com os claims informados (testes e
+ * simulação de expiração no devtools)
+ * @param claims - Claims do payload
+ * @param signature - Assinatura (padrão: vazia)
+ * @returns Token no formato `header.payload.signature`
+ */
+export function encodeUnsignedJwt(
+  claims: JwtClaims,
+  signature: string = ''
+): string {
+  const encode = (value: unknown) => {
+    const bytes = new TextEncoder().encode(JSON.stringify(value))
+    const binary = Array.from(bytes, (byte) => String.fromCharCode(byte))
+    return btoa(binary.join(''))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '')
+  }
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.${signature}`
+}
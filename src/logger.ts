@@ -0,0 +1,82 @@
+import type { AuthLogger, LogContext, LogLevel } from './types'
+import { isProduction } from './utils'
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+}
+
+/**
+ * Logger padrão usando o console, com prefixo `[vue-auth]`
+ */
+export const consoleLogger: AuthLogger = {
+  debug: (message, context) => console.debug(...format(message, context)),
+  info: (message, context) => console.info(...format(message, context)),
+  warn: (message, context) => console.warn(...format(message, context)),
+  error: (message, context) => console.error(...format(message, context)),
+}
+
+/**
+ * Opções do logger
+ */
+export interface LoggerOptions {
+  /** Nível mínimo registrado (padrão: 'silent' em produção, 'info' fora) */
+  level?: LogLevel
+  /** Destino das mensagens (padrão: console) */
+  logger?: AuthLogger
+}
+
+/**
+ * Cria o logger do plugin, filtrando as mensagens pelo nível configurado
+ * @param options - Logger options
+ * @returns AuthLogger
+ *
+ * @example
+ * ```ts
+ * const logger = createLogger({
+ *   level: 'warn',
+ *   logger: {
+ *     debug: () => {},
+ *     info: () => {},
+ *     warn: (message, context) => Sentry.addBreadcrumb({ message, data: context }),
+ *     error: (message, context) => Sentry.captureMessage(message, { extra: context }),
+ *   },
+ * })
+ * ```
+ */
+export function createLogger(options: LoggerOptions = {}): AuthLogger {
+  const { level = defaultLevel(), logger = consoleLogger } = options
+  const threshold = LEVELS[level]
+
+  const method =
+    (name: Exclude<LogLevel, 'silent'>) =>
+    (message: string, context?: LogContext): void => {
+      if (LEVELS[name] < threshold) return
+      logger[name](message, context)
+    }
+
+  return {
+    debug: method('debug'),
+    info: method('info'),
+    warn: method('warn'),
+    error: method('error'),
+  }
+}
+
+/**
+ * Nível padrão: silencioso em produção
+ */
+function defaultLevel(): LogLevel {
+  return isProduction() ? 'silent' : 'info'
+}
+
+/**
+ * Formata a mensagem para o console
+ */
+function format(message: string, context?: LogContext): unknown[] {
+  const text = `[vue-auth] ${message}`
+  return context ? [text, context] : [text]
+}
@@ -0,0 +1,100 @@
+import { ref, computed, type ComputedRef } from 'vue'
+import type { AxiosError } from 'axios'
+
+/**
+ * Estado da conexão e das requisições retidas enquanto offline
+ */
+export interface NetworkStatus {
+  /** Indica se o navegador está online */
+  isOnline: ComputedRef<boolean>
+  /** Requisições aguardando o refresh ou a volta da conexão */
+  pendingRequests: ComputedRef<number>
+  /** Atualiza a contagem de requisições retidas */
+  trackPending: (delta: number) => void
+  /**
+   * Aguarda a conexão voltar
+   * @param timeout - Tempo máximo (ms) de espera
+   * @returns true se voltou a ficar online, false se o tempo esgotou
+   */
+  waitForOnline: (timeout: number) => Promise<boolean>
+  /** Remove os listeners de online/offline */
+  close: () => void
+}
+
+/**
+ * Indica se o navegador está offline
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false
+}
+
+/**
+ * Verifica se o erro é uma falha de conexão (sem resposta do servidor)
+ *
+ * Requisições canceladas não contam como falha de conexão.
+ */
+export function isNetworkError(error: unknown): boolean {
+  const axiosError = error as AxiosError
+  if (!axiosError?.isAxiosError || axiosError.response) return false
+  return axiosError.code !== 'ERR_CANCELED'
+}
+
+/**
+ * Cria o monitor de conexão a partir dos eventos `online`/`offline`
+ *
+ * Fora do navegador, a conexão é sempre considerada online.
+ *
+ * @returns NetworkStatus
+ */
+export function createNetworkStatus(): NetworkStatus {
+  const online = ref(!isOffline())
+  const pending = ref(0)
+  const waiters = new Set<() => void>()
+
+  const onOnline = (): void => {
+    online.value = true
+    waiters.forEach((resolve) => resolve())
+    waiters.clear()
+  }
+  const onOffline = (): void => {
+    online.value = false
+  }
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', onOnline)
+    window.addEventListener('offline', onOffline)
+  }
+
+  const waitForOnline = (timeout: number): Promise<boolean> => {
+    if (online.value && !isOffline()) return Promise.resolve(true)
+    online.value = false
+
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer)
+        resolve(true)
+      }
+      const timer = setTimeout(() => {
+        waiters.delete(done)
+        resolve(false)
+      }, timeout)
+      waiters.add(done)
+    })
+  }
+
+  const close = (): void => {
+    if (typeof window === 'undefined') return
+    window.removeEventListener('online', onOnline)
+    window.removeEventListener('offline', onOffline)
+  }
+
+  return {
+    isOnline: computed(() => online.value),
+    pendingRequests: computed(() => pending.value),
+    trackPending: (delta) => {
+      pending.value = Math.max(0, pending.value + delta)
+    },
+    waitForOnline,
+    close,
+  }
+}
@@ -0,0 +1,322 @@
+import axios, { type AxiosError, type AxiosInstance } from 'axios'
+import type { Router } from 'vue-router'
+import { decodeJwt } from './jwt'
+import { webStore } from './storage'
+import { isExternalUrl, toRouteLocation } from './redirect'
+import type {
+  AuthInstance,
+  LoginResponse,
+  OAuthOptions,
+  OAuthRedirectOptions,
+  RefreshResponse,
+} from './types'
+
+/** Mensagens para os códigos de erro do OAuth2 / OIDC */
+const ERROR_MESSAGES: Record<string, string> = {
+  access_denied: 'Acesso negado pelo provedor de identidade',
+  login_required: 'É necessário fazer login no provedor de identidade',
+  consent_required: 'É necessário autorizar o acesso no provedor',
+  interaction_required: 'O provedor de identidade exige interação',
+  invalid_grant: 'Código de autorização inválido ou expirado',
+  invalid_client: 'Aplicação não reconhecida pelo provedor de identidade',
+  invalid_request: 'Requisição de autenticação inválida',
+  invalid_scope: 'Escopo solicitado inválido',
+  unauthorized_client: 'Aplicação não autorizada pelo provedor',
+  server_error: 'Erro no provedor de identidade',
+  temporarily_unavailable:
+    'Provedor de identidade temporariamente indisponível',
+  invalid_state: 'Sessão de login inválida ou expirada, tente novamente',
+  invalid_nonce: 'Resposta do provedor de identidade inválida',
+}
+
+/**
+ * Erro do fluxo OAuth2 / OIDC com o código padronizado
+ */
+export class OAuthError extends Error {
+  /** Código do erro (ex: 'access_denied', 'invalid_state') */
+  readonly code: string
+  /** Descrição enviada pelo provedor, quando houver */
+  readonly description?: string
+
+  constructor(code: string, description?: string) {
+    super(ERROR_MESSAGES[code] || description || 'Erro na autenticação OAuth')
+    this.name = 'OAuthError'
+    this.code = code
+    this.description = description
+  }
+}
+
+/**
+ * Dados da transação salvos entre o redirect e o callback
+ */
+interface OAuthTransaction {
+  state: string
+  nonce: string
+  verifier: string
+  returnTo?: string
+  remember?: boolean
+  createdAt: number
+}
+
+/**
+ * Cliente OAuth2 Authorization Code + PKCE
+ */
+export interface OAuthClient {
+  /** Gera a URL de autorização e salva state/nonce/verifier */
+  buildAuthorizeUrl: (options?: OAuthRedirectOptions) => Promise<string>
+  /**
+   * Valida o callback e troca o código pelos tokens
+   * @returns Tokens normalizados, o destino e o "lembrar de mim" salvos
+   * antes do redirect
+   */
+  handleCallback: (
+    query: Record<string, unknown>
+  ) => Promise<{ data: LoginResponse; returnTo?: string; remember?: boolean }>
+  /** Renova o token de acesso no token endpoint */
+  refresh: (refreshToken: string) => Promise<RefreshResponse>
+}
+
+/**
+ * Cria o cliente OAuth2 / OIDC (Authorization Code + PKCE)
+ *
+ * O token endpoint é chamado por um Axios próprio, sem os interceptors e
+ * os headers do app: o token de acesso do app (ou o cookie e o CSRF do
+ * modo `cookie`) não vai para o provedor, e a requisição continua simples
+ * (sem preflight de CORS). Apenas o adapter do `http` é reaproveitado.
+ *
+ * @param http - Axios instance
+ * @param options - OAuth options
+ * @returns OAuthClient
+ */
+export function createOAuthClient(
+  http: AxiosInstance,
+  options: OAuthOptions
+): OAuthClient {
+  const {
+    authorizeUrl,
+    tokenUrl,
+    clientId,
+    redirectUri,
+    scope = 'openid profile email',
+    params: extraParams = {},
+    transactionStorage = webStore(() => sessionStorage),
+    transactionKey = 'vue-auth:oauth',
+    transactionTtl = 10 * 60 * 1000,
+  } = options
+  const tokenHttp = axios.create({ adapter: http.defaults.adapter })
+
+  const saveTransaction = (transaction: OAuthTransaction) =>
+    transactionStorage.setItem(transactionKey, JSON.stringify(transaction))
+
+  const takeTransaction = async (): Promise<OAuthTransaction | null> => {
+    const raw = await transactionStorage.getItem(transactionKey)
+    await transactionStorage.removeItem(transactionKey)
+    if (!raw) return null
+    try {
+      const transaction = JSON.parse(raw) as OAuthTransaction
+      if (Date.now() - transaction.createdAt > transactionTtl) return null
+      return transaction
+    } catch {
+      return null
+    }
+  }
+
+  const requestTokens = async (
+    body: Record<string, string>
+  ): Promise<LoginResponse> => {
+    try {
+      const { data } = await tokenHttp.post<Record<string, unknown>>(
+        tokenUrl,
+        new URLSearchParams({ client_id: clientId, ...body }).toString(),
+        {
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        }
+      )
+      return normalizeTokenResponse(data)
+    } catch (error) {
+      const response = (error as AxiosError<Record<string, unknown>>).response
+      const code = response?.data?.error
+      if (typeof code === 'string') {
+        throw new OAuthError(
+          code,
+          response?.data?.error_description as string | undefined
+        )
+      }
+      throw error
+    }
+  }
+
+  const buildAuthorizeUrl = async (
+    redirectOptions: OAuthRedirectOptions = {}
+  ): Promise<string> => {
+    const verifier = randomString(64)
+    const transaction: OAuthTransaction = {
+      state: randomString(32),
+      nonce: randomString(32),
+      verifier,
+      returnTo: redirectOptions.returnTo,
+      remember: redirectOptions.remember,
+      createdAt: Date.now(),
+    }
+    await saveTransaction(transaction)
+
+    const url = new URL(authorizeUrl)
+    const params: Record<string, string> = {
+      ...extraParams,
+      ...redirectOptions.params,
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      scope,
+      state: transaction.state,
+      nonce: transaction.nonce,
+      code_challenge: await createCodeChallenge(verifier),
+      code_challenge_method: 'S256',
+    }
+    Object.entries(params).forEach(([key, value]) =>
+      url.searchParams.set(key, value)
+    )
+    return url.toString()
+  }
+
+  const handleCallback = async (query: Record<string, unknown>) => {
+    const param = (key: string) =>
+      typeof query[key] === 'string' ? (query[key] as string) : undefined
+
+    const transaction = await takeTransaction()
+
+    const error = param('error')
+    if (error) {
+      throw new OAuthError(error, param('error_description'))
+    }
+
+    const code = param('code')
+    if (!code) {
+      throw new OAuthError('invalid_request', 'Missing authorization code')
+    }
+    if (!transaction || param('state') !== transaction.state) {
+      throw new OAuthError('invalid_state')
+    }
+
+    const data = await requestTokens({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: transaction.verifier,
+    })
+
+    const idToken = data.id_token as string | undefined
+    if (idToken && decodeJwt(idToken)?.nonce !== transaction.nonce) {
+      throw new OAuthError('invalid_nonce')
+    }
+
+    return {
+      data,
+      returnTo: transaction.returnTo,
+      remember: transaction.remember,
+    }
+  }
+
+  const refresh = (refreshToken: string): Promise<RefreshResponse> =>
+    requestTokens({ grant_type: 'refresh_token', refresh_token: refreshToken })
+
+  return { buildAuthorizeUrl, handleCallback, refresh }
+}
+
+/**
+ * Registra a rota de callback do OAuth, que conclui o login e redireciona
+ * para o destino salvo (ou para a rota de login em caso de erro)
+ *
+ * @param router - Vue Router instance
+ * @param auth - Auth instance
+ * @param options - Callback route options
+ */
+export function setupOAuthCallback(
+  router: Router,
+  auth: AuthInstance,
+  options: {
+    callbackPath: string
+    callbackRouteName: string
+    loginRouteName: string
+    defaultRedirect: string
+    publicMetaKey: string
+  }
+): void {
+  const {
+    callbackPath,
+    callbackRouteName,
+    loginRouteName,
+    defaultRedirect,
+    publicMetaKey,
+  } = options
+
+  router.addRoute({
+    path: callbackPath,
+    name: callbackRouteName,
+    meta: { [publicMetaKey]: true },
+    component: { render: () => null },
+    beforeEnter: async (to) => {
+      const result = await auth.handleRedirectCallback(to.query)
+      if (!result.success) {
+        const code =
+          result.error instanceof OAuthError ? result.error.code : 'error'
+        return {
+          name: loginRouteName,
+          query: { oauth_error: code },
+          replace: true,
+        }
+      }
+      // O destino já foi validado pelo core (mesma origem ou permitida)
+      if (result.returnTo && isExternalUrl(result.returnTo)) {
+        window.location.assign(result.returnTo)
+        return false
+      }
+      return toRouteLocation(router, result.returnTo || defaultRedirect)
+    },
+  })
+}
+
+/**
+ * Normaliza a resposta do token endpoint para o formato usado pelo core
+ */
+function normalizeTokenResponse(data: Record<string, unknown>): LoginResponse {
+  return {
+    ...data,
+    access: (data.access_token ?? data.access) as string | undefined,
+    refresh: (data.refresh_token ?? data.refresh) as string | undefined,
+  }
+}
+
+/**
+ * Gera uma string aleatória segura em base64url
+ */
+function randomString(bytes: number): string {
+  const buffer = new Uint8Array(bytes)
+  crypto.getRandomValues(buffer)
+  return base64Url(buffer)
+}
+
+/**
+ * Calcula o code_challenge (S256) do PKCE
+ */
+async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(verifier)
+  )
+  return base64Url(new Uint8Array(digest))
+}
+
+/**
+ * Codifica bytes em base64url (sem padding)
+ */
+function base64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
@@ -0,0 +1,193 @@
+import type { RouteLocationRaw, Router } from 'vue-router'
+import { isBrowser } from './utils'
+import { webStore } from './storage'
+import type { KeyValueStore, ReturnToOptions } from './types'
+
+/**
+ * Destino pós-login salvo entre o redirect para o login e o retorno
+ */
+interface SavedReturnTo {
+  target: string
+  createdAt: number
+}
+
+/**
+ * Guarda e valida o destino para onde voltar após o login
+ */
+export interface ReturnToStore {
+  /**
+   * Valida o destino: caminhos e URLs da mesma origem viram caminho
+   * (`/rota?query#hash`), URLs de origens permitidas são mantidas
+   * @returns Destino seguro ou null
+   */
+  sanitize: (target: unknown) => string | null
+  /** Salva o destino (sobrevive a reloads e a redirects externos) */
+  save: (target: string) => Promise<void>
+  /**
+   * Consome o destino: usa o candidato (ex: `query.redirect`) se for seguro,
+   * senão o destino salvo. O destino salvo é sempre descartado
+   * @returns Destino seguro ou null
+   */
+  resolve: (candidate?: unknown) => Promise<string | null>
+  /** Descarta o destino salvo */
+  clear: () => Promise<void>
+}
+
+/**
+ * Cria o store do destino pós-login com proteção contra open redirect
+ * @param options - Return-to options
+ * @returns ReturnToStore
+ */
+export function createReturnTo(
+  options: ReturnToOptions & {
+    /** Destinos válidos que não devem ser usados (ex: a rota de login) */
+    exclude?: (path: string) => boolean
+  } = {}
+): ReturnToStore {
+  const {
+    allowedOrigins = [],
+    storage = isBrowser() ? webStore(() => sessionStorage) : memoryStore(),
+    key = 'vue-auth:return-to',
+    ttl = 30 * 60 * 1000,
+    exclude,
+  } = options
+
+  const origins = allowedOrigins.map(toOrigin).filter(Boolean)
+
+  const sanitize = (target: unknown): string | null => {
+    const safe = sanitizeRedirect(target, origins)
+    if (!safe || (exclude && !isExternalUrl(safe) && exclude(safe))) {
+      return null
+    }
+    return safe
+  }
+
+  const read = async (): Promise<string | null> => {
+    try {
+      const raw = await storage.getItem(key)
+      if (!raw) return null
+      const saved = JSON.parse(raw) as SavedReturnTo
+      if (Date.now() - saved.createdAt > ttl) return null
+      return saved.target
+    } catch {
+      return null
+    }
+  }
+
+  const clear = async (): Promise<void> => {
+    try {
+      await storage.removeItem(key)
+    } catch {
+      // Storage indisponível: não havia destino salvo
+    }
+  }
+
+  const save = async (target: string): Promise<void> => {
+    const safe = sanitize(target)
+    if (!safe) return
+    try {
+      const saved: SavedReturnTo = { target: safe, createdAt: Date.now() }
+      await storage.setItem(key, JSON.stringify(saved))
+    } catch {
+      // Storage indisponível (ex: modo privado): fica só a query
+    }
+  }
+
+  const resolve = async (candidate?: unknown): Promise<string | null> => {
+    const saved = await read()
+    await clear()
+    // O valor salvo é revalidado: o storage pode ter sido alterado
+    return sanitize(candidate) ?? sanitize(saved)
+  }
+
+  return { sanitize, save, resolve, clear }
+}
+
+/**
+ * Verifica se o destino é uma URL absoluta (origem externa permitida)
+ */
+export function isExternalUrl(target: string): boolean {
+  return /^https?:\/\//i.test(target)
+}
+
+/**
+ * Converte o destino (caminho) em location do router, mantendo query e hash
+ * (`{ path }` descarta a query embutida no caminho)
+ */
+export function toRouteLocation(
+  router: Router,
+  target: string
+): RouteLocationRaw {
+  const { path, query, hash } = router.resolve(target)
+  return { path, query, hash, replace: true }
+}
+
+/**
+ * Valida um destino de redirect contra open redirect
+ *
+ * Aceita caminhos relativos à raiz (`/rota`) e URLs absolutas da mesma
+ * origem ou de uma das origens permitidas. Rejeita URLs protocol-relative
+ * (`//evil.com`), barras invertidas, caracteres de controle e esquemas
+ * como `javascript:`.
+ *
+ * @param target - Destino recebido (ex: `query.redirect`)
+ * @param allowedOrigins - Origens externas permitidas
+ * @returns Destino seguro (caminho ou URL permitida) ou null
+ */
+export function sanitizeRedirect(
+  target: unknown,
+  allowedOrigins: string[] = []
+): string | null {
+  if (Array.isArray(target)) target = target[0]
+  if (typeof target !== 'string' || !target) return null
+  // Navegadores tratam `\` como `/` e ignoram espaços/controles nas URLs
+  if (/[\\\u0000-\u001f\u007f]/.test(target)) return null
+
+  if (target.startsWith('/')) {
+    return target.startsWith('//') ? null : target
+  }
+  if (!isExternalUrl(target)) return null
+
+  let url: URL
+  try {
+    url = new URL(target)
+  } catch {
+    return null
+  }
+
+  const currentOrigin = isBrowser() ? window.location.origin : null
+  if (url.origin === currentOrigin) {
+    // `https://app//evil.com` teria o caminho protocol-relative `//evil.com`
+    return url.pathname.startsWith('//')
+      ? null
+      : `${url.pathname}${url.search}${url.hash}`
+  }
+  return allowedOrigins.includes(url.origin) ? url.href : null
+}
+
+/**
+ * Normaliza uma origem permitida (ex: 'https://app.exemplo.com/')
+ */
+function toOrigin(value: string): string {
+  try {
+    return new URL(value).origin
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Store em memória usado fora do navegador
+ */
+function memoryStore(): KeyValueStore {
+  const data = new Map<string, string>()
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value)
+    },
+    removeItem: (key) => {
+      data.delete(key)
+    },
+  }
+}
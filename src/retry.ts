@@ -0,0 +1,118 @@
+import type { AxiosError } from 'axios'
+import { isOffline } from './network'
+import type { RetryPolicyOptions, RefreshFailureReason } from './types'
+
+/** Status HTTP considerados transitórios por padrão */
+const DEFAULT_RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504]
+
+/**
+ * Erro final do refresh, com o motivo do fim da sessão
+ */
+export class RefreshError extends Error {
+  /** Motivo da falha */
+  readonly reason: RefreshFailureReason
+  /** Status HTTP da última tentativa, quando houver */
+  readonly status?: number
+  /** Erro original da última tentativa */
+  readonly cause?: unknown
+
+  constructor(reason: RefreshFailureReason, cause?: unknown) {
+    super(`Token refresh failed: ${reason}`)
+    this.name = 'RefreshError'
+    this.reason = reason
+    this.cause = cause
+    this.status = (cause as AxiosError | undefined)?.response?.status
+  }
+}
+
+/**
+ * Política de retentativas do refresh
+ */
+export interface RetryPolicy {
+  /** Número máximo de tentativas */
+  maxAttempts: number
+  /** Tempo máximo (ms) somando todas as tentativas */
+  maxElapsedTime: number
+  /** Interrompe o backoff quando o navegador fica offline */
+  abortWhenOffline: boolean
+  /** Indica se o erro é transitório (vale tentar novamente) */
+  isRetryable: (error: unknown) => boolean
+  /** Espera (ms) antes da próxima tentativa */
+  delay: (attempt: number) => number
+}
+
+/**
+ * Cria a política de retentativas do refresh
+ *
+ * Por padrão, só erros de rede e status transitórios (408, 425, 429, 5xx)
+ * são repetidos, com backoff exponencial e jitter.
+ *
+ * @param options - Retry policy options
+ * @param maxRetries - Número de tentativas quando `maxAttempts` não é informado
+ * @returns RetryPolicy
+ */
+export function createRetryPolicy(
+  options: RetryPolicyOptions = {},
+  maxRetries = 3
+): RetryPolicy {
+  const {
+    maxAttempts = maxRetries,
+    retryableStatuses = DEFAULT_RETRYABLE_STATUSES,
+    retryOnNetworkError = true,
+    isRetryable,
+    baseDelay = 500,
+    maxDelay = 10000,
+    factor = 2,
+    jitter = true,
+    maxElapsedTime = 30000,
+    abortWhenOffline = true,
+  } = options
+
+  const defaultIsRetryable = (error: unknown): boolean => {
+    const axiosError = error as AxiosError
+    const status = axiosError?.response?.status
+    if (status !== undefined) {
+      return retryableStatuses.includes(status)
+    }
+    return retryOnNetworkError && !!axiosError?.isAxiosError
+  }
+
+  const delay = (attempt: number): number => {
+    const exponential = Math.min(maxDelay, baseDelay * factor ** (attempt - 1))
+    if (!jitter) return exponential
+    // Full jitter: espalha as tentativas de vários clientes no tempo
+    const spread = typeof jitter === 'number' ? jitter : 1
+    return Math.round(exponential * (1 - spread * Math.random()))
+  }
+
+  return {
+    maxAttempts: Math.max(1, maxAttempts),
+    maxElapsedTime,
+    abortWhenOffline,
+    isRetryable: isRetryable || defaultIsRetryable,
+    delay,
+  }
+}
+
+/**
+ * Aguarda o tempo informado, interrompendo se o navegador ficar offline
+ * @param ms - Milliseconds to wait
+ * @returns true se aguardou o tempo todo, false se ficou offline
+ */
+export function sleepUnlessOffline(ms: number): Promise<boolean> {
+  if (typeof window === 'undefined') {
+    return new Promise((resolve) => setTimeout(() => resolve(true), ms))
+  }
+
+  return new Promise((resolve) => {
+    const onOffline = () => {
+      clearTimeout(timer)
+      resolve(false)
+    }
+    const timer = setTimeout(() => {
+      window.removeEventListener('offline', onOffline)
+      resolve(true)
+    }, ms)
+    window.addEventListener('offline', onOffline, { once: true })
+  })
+}
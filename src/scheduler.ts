@@ -0,0 +1,135 @@
+import { decodeJwt } from './jwt'
+
+/** Maior delay aceito pelo setTimeout (~24.8 dias) */
+const MAX_TIMEOUT = 2 ** 31 - 1
+
+/**
+ * Opções do agendador de refresh proativo
+ */
+export interface RefreshSchedulerOptions {
+  /** Segundos antes do `exp` em que o refresh deve acontecer */
+  leeway: number
+  /** Função que executa o refresh */
+  refresh: () => Promise<unknown>
+  /** Callback executado quando o refresh agendado falha */
+  onError?: (error: unknown) => void
+}
+
+/**
+ * Agendador de refresh baseado no claim `exp` do JWT
+ */
+export interface RefreshScheduler {
+  /**
+   * Agenda o refresh para o token informado
+   * @param token - Token de acesso
+   * @param fresh - true se o token acabou de ser emitido pelo servidor
+   *   (permite estimar a diferença de relógio via `iat`)
+   * @param expiresAt - Expiração informada pela resposta (ms), usada
+   *   quando o token não tem `exp` (ex: tokens opacos com `expires_in`)
+   */
+  schedule: (
+    token: string | null,
+    fresh?: boolean,
+    expiresAt?: number | null
+  ) => void
+  /** Cancela o refresh agendado */
+  cancel: () => void
+}
+
+/**
+ * Cria o agendador de refresh proativo
+ *
+ * - Ignora tokens sem `exp`, exceto quando a resposta informou a validade
+ * - Compensa diferença de relógio entre cliente e servidor usando `iat`
+ * - Revalida ao voltar para a aba, já que timers são atrasados em segundo
+ *   plano
+ *
+ * @param options - Scheduler options
+ * @returns RefreshScheduler
+ */
+export function createRefreshScheduler(
+  options: RefreshSchedulerOptions
+): RefreshScheduler {
+  const { leeway, refresh, onError } = options
+
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let dueAt: number | null = null
+  // Diferença (ms) entre o relógio local e o do servidor
+  let clockSkew = 0
+
+  const clearTimer = (): void => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+  }
+
+  const run = (): void => {
+    clearTimer()
+    dueAt = null
+    refresh().catch((error) => onError?.(error))
+  }
+
+  const arm = (): void => {
+    clearTimer()
+    if (dueAt === null) return
+
+    const delay = dueAt - Date.now()
+    if (delay <= 0) {
+      run()
+      return
+    }
+    timer = setTimeout(arm, Math.min(delay, MAX_TIMEOUT))
+  }
+
+  const onVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible' && dueAt !== null) {
+      arm()
+    }
+  }
+
+  let listening = false
+  const listen = (enabled: boolean): void => {
+    if (typeof document === 'undefined' || enabled === listening) return
+    if (enabled) {
+      document.addEventListener('visibilitychange', onVisibilityChange)
+    } else {
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+    }
+    listening = enabled
+  }
+
+  const cancel = (): void => {
+    clearTimer()
+    dueAt = null
+    listen(false)
+  }
+
+  const schedule = (
+    token: string | null,
+    fresh = false,
+    expiresAt: number | null = null
+  ): void => {
+    cancel()
+    if (!token) return
+
+    const claims = decodeJwt(token)
+    if (!claims || typeof claims.exp !== 'number') {
+      if (expiresAt === null) return
+      dueAt = expiresAt - leeway * 1000
+      listen(true)
+      arm()
+      return
+    }
+
+    if (fresh && typeof claims.iat === 'number') {
+      clockSkew = Date.now() - claims.iat * 1000
+    }
+
+    dueAt = claims.exp * 1000 + clockSkew - leeway * 1000
+    listen(true)
+    arm()
+  }
+
+  return { schedule, cancel }
+}
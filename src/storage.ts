@@ -0,0 +1,270 @@
+import type { AuthStorage, KeyValueStore } from './types'
+
+/**
+ * Opções comuns aos adapters de storage
+ */
+export interface StorageAdapterOptions {
+  /** Prefixo aplicado às chaves (ex: 'admin:' → 'admin:token') */
+  prefix?: string
+  /** Chave do token de acesso (padrão: 'token') */
+  tokenKey?: string
+  /** Chave do refresh token (padrão: 'refresh_token') */
+  refreshTokenKey?: string
+}
+
+/**
+ * Opções do adapter de cookies
+ */
+export interface CookieStorageOptions extends StorageAdapterOptions {
+  /** Domínio do cookie (ex: '.example.com') */
+  domain?: string
+  /** Caminho do cookie (padrão: '/') */
+  path?: string
+  /** Envia o cookie apenas via HTTPS (padrão: true) */
+  secure?: boolean
+  /** Política SameSite (padrão: 'Lax') */
+  sameSite?: 'Strict' | 'Lax' | 'None'
+  /** Tempo de vida em segundos (padrão: cookie de sessão) */
+  maxAge?: number
+}
+
+/**
+ * Cria um AuthStorage a partir de um store chave/valor (síncrono ou não)
+ * @param store - Key/value store (localStorage, IndexedDB wrapper, etc.)
+ * @param options - Adapter options
+ * @returns AuthStorage
+ *
+ * @example
+ * ```ts
+ * import { Preferences } from '@capacitor/preferences'
+ *
+ * const storage = createAuthStorage({
+ *   getItem: async (key) => (await Preferences.get({ key })).value,
+ *   setItem: (key, value) => Preferences.set({ key, value }),
+ *   removeItem: (key) => Preferences.remove({ key }),
+ * })
+ * ```
+ */
+export function createAuthStorage(
+  store: KeyValueStore,
+  options: StorageAdapterOptions = {}
+): AuthStorage {
+  const {
+    prefix,
+    tokenKey = 'token',
+    refreshTokenKey = 'refresh_token',
+  } = options
+  const kv = prefix ? withNamespace(prefix, store) : store
+
+  return {
+    getToken: () => kv.getItem(tokenKey),
+    setToken: (token: string) => kv.setItem(tokenKey, token),
+    removeToken: () => kv.removeItem(tokenKey),
+    getRefreshToken: () => kv.getItem(refreshTokenKey),
+    setRefreshToken: (token: string) => kv.setItem(refreshTokenKey, token),
+    removeRefreshToken: () => kv.removeItem(refreshTokenKey),
+    getItem: (key: string) => kv.getItem(key),
+    setItem: (key: string, value: string) => kv.setItem(key, value),
+    removeItem: (key: string) => kv.removeItem(key),
+  }
+}
+
+/**
+ * Aplica um prefixo a todas as chaves de um store
+ * @param prefix - Key prefix
+ * @param store - Key/value store
+ * @returns Store com as chaves prefixadas
+ */
+export function withNamespace(
+  prefix: string,
+  store: KeyValueStore
+): KeyValueStore {
+  return {
+    getItem: (key) => store.getItem(prefix + key),
+    setItem: (key, value) => store.setItem(prefix + key, value),
+    removeItem: (key) => store.removeItem(prefix + key),
+  }
+}
+
+/**
+ * Storage usando localStorage (padrão do plugin)
+ */
+export function localStorageAdapter(
+  options: StorageAdapterOptions = {}
+): AuthStorage {
+  return createAuthStorage(webStore(() => localStorage), options)
+}
+
+/**
+ * Storage usando sessionStorage (tokens descartados ao fechar a aba)
+ */
+export function sessionStorageAdapter(
+  options: StorageAdapterOptions = {}
+): AuthStorage {
+  return createAuthStorage(webStore(() => sessionStorage), options)
+}
+
+/**
+ * Storage em memória (tokens descartados ao recarregar a página)
+ */
+export function memoryStorageAdapter(
+  options: StorageAdapterOptions = {}
+): AuthStorage {
+  const data = new Map<string, string>()
+  return createAuthStorage(
+    {
+      getItem: (key) => data.get(key) ?? null,
+      setItem: (key, value) => {
+        data.set(key, value)
+      },
+      removeItem: (key) => {
+        data.delete(key)
+      },
+    },
+    options
+  )
+}
+
+/**
+ * Opções do storage de cookies da requisição (SSR)
+ */
+export interface RequestCookieStorageOptions extends CookieStorageOptions {
+  /** Header `Cookie` da requisição */
+  cookies?: string
+  /** Callback para cada `Set-Cookie` gerado durante a requisição */
+  onSetCookie?: (cookie: string) => void
+}
+
+/**
+ * Storage usando cookies acessíveis via JavaScript
+ *
+ * @example
+ * ```ts
+ * const storage = cookieStorageAdapter({
+ *   domain: '.example.com',
+ *   sameSite: 'Strict',
+ *   maxAge: 60 * 60 * 24 * 7,
+ * })
+ * ```
+ */
+export function cookieStorageAdapter(
+  options: CookieStorageOptions = {}
+): AuthStorage {
+  return createAuthStorage(
+    {
+      getItem: (key) => readCookie(document.cookie, key),
+      setItem: (key, value) => {
+        document.cookie = serializeCookie(key, value, options)
+      },
+      removeItem: (key) => {
+        document.cookie = serializeCookie(key, '', options, true)
+      },
+    },
+    options
+  )
+}
+
+/**
+ * Storage com escopo de requisição para SSR: lê os tokens do header
+ * `Cookie` e repassa as alterações como `Set-Cookie`
+ *
+ * Use as mesmas opções do `cookieStorageAdapter` do cliente para que
+ * servidor e navegador leiam as mesmas chaves.
+ *
+ * @example
+ * ```ts
+ * // entry-server.ts (uma instância por requisição)
+ * const storage = requestCookieStorage({
+ *   cookies: req.headers.cookie,
+ *   onSetCookie: (cookie) => res.appendHeader('Set-Cookie', cookie),
+ * })
+ * ```
+ */
+export function requestCookieStorage(
+  options: RequestCookieStorageOptions = {}
+): AuthStorage {
+  const { cookies = '', onSetCookie } = options
+  const jar = new Map<string, string>()
+
+  return createAuthStorage(
+    {
+      getItem: (key) =>
+        jar.has(key) ? jar.get(key) || null : readCookie(cookies, key),
+      setItem: (key, value) => {
+        jar.set(key, value)
+        onSetCookie?.(serializeCookie(key, value, options))
+      },
+      removeItem: (key) => {
+        jar.set(key, '')
+        onSetCookie?.(serializeCookie(key, '', options, true))
+      },
+    },
+    options
+  )
+}
+
+/**
+ * Monta o cookie no formato usado por `document.cookie` / `Set-Cookie`
+ */
+function serializeCookie(
+  key: string,
+  value: string,
+  options: CookieStorageOptions,
+  expire = false
+): string {
+  const {
+    domain,
+    path = '/',
+    secure = true,
+    sameSite = 'Lax',
+    maxAge,
+  } = options
+
+  const parts = [
+    `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+    `path=${path}`,
+    `SameSite=${sameSite}`,
+  ]
+  if (domain) parts.push(`domain=${domain}`)
+  if (secure) parts.push('Secure')
+  if (expire) {
+    parts.push('max-age=0')
+  } else if (maxAge !== undefined) {
+    parts.push(`max-age=${maxAge}`)
+  }
+  return parts.join('; ')
+}
+
+/**
+ * Lê um cookie de uma string no formato `document.cookie`
+ * @param cookies - Cookie header string
+ * @param name - Cookie name
+ * @returns Valor decodificado ou null
+ */
+export function readCookie(cookies: string, name: string): string | null {
+  const encoded = encodeURIComponent(name)
+  for (const part of cookies.split(';')) {
+    const index = part.indexOf('=')
+    if (index < 0) continue
+    if (part.slice(0, index).trim() === encoded) {
+      try {
+        return decodeURIComponent(part.slice(index + 1).trim())
+      } catch {
+        return part.slice(index + 1).trim()
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Adapta localStorage/sessionStorage, acessando-os apenas quando usados
+ * @internal
+ */
+export function webStore(getStorage: () => Storage): KeyValueStore {
+  return {
+    getItem: (key) => getStorage().getItem(key),
+    setItem: (key, value) => getStorage().setItem(key, value),
+    removeItem: (key) => getStorage().removeItem(key),
+  }
+}
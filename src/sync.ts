@@ -0,0 +1,221 @@
+import type { ImpersonationFrame, LogoutReason } from './types'
+import { sleep } from './utils'
+
+/**
+ * Mensagens trocadas entre abas
+ */
+export type SyncMessage =
+  | {
+      type: 'login'
+      token: string | null
+      refreshToken: string | null
+      expiresAt?: number | null
+      /** "Lembrar de mim" do login (ausente na impersonação) */
+      remember?: boolean
+      user: unknown
+    }
+  | {
+      type: 'tokens'
+      token: string | null
+      refreshToken: string | null
+      expiresAt?: number | null
+    }
+  | { type: 'user'; user: unknown }
+  | { type: 'impersonation'; stack: ImpersonationFrame<unknown>[] }
+  | { type: 'logout'; reason?: LogoutReason; redirect?: boolean }
+
+/** Mensagens internas de coordenação do refresh (fallback sem Web Locks) */
+type LockMessage = { type: 'lock' } | { type: 'unlock' }
+
+/** Trava do refresh salva no localStorage (fallback sem Web Locks) */
+interface StoredLock {
+  owner: string
+  expiresAt: number
+}
+
+/**
+ * Opções da sincronização entre abas
+ */
+export interface TabSyncOptions {
+  /** Nome do canal (BroadcastChannel / chave do localStorage) */
+  channel: string
+  /** Callback executado ao receber uma mensagem de outra aba */
+  onMessage: (message: SyncMessage) => void
+  /** Tempo máximo (ms) aguardando o refresh de outra aba (padrão: 10000) */
+  lockTimeout?: number
+}
+
+/**
+ * Canal de sincronização entre abas
+ */
+export interface TabSync {
+  /** Envia uma mensagem para as demais abas */
+  post: (message: SyncMessage) => void
+  /**
+   * Executa a tarefa com exclusividade entre abas (usado no refresh,
+   * para que apenas uma aba consuma o refresh token por vez)
+   */
+  runExclusive: <R>(task: () => Promise<R>) => Promise<R>
+  /** Encerra o canal e remove os listeners */
+  close: () => void
+}
+
+/**
+ * Cria o canal de sincronização entre abas
+ *
+ * Usa BroadcastChannel quando disponível e, como fallback, o evento
+ * `storage` do localStorage. A exclusividade do refresh usa a Web Locks
+ * API quando disponível; caso contrário, a aba grava a trava no
+ * localStorage e a relê após um atraso aleatório (a leitura e a escrita não
+ * são atômicas: se outra aba gravou no intervalo, apenas a última vence).
+ *
+ * @param options - Sync options
+ * @returns TabSync ou null fora do navegador
+ */
+export function createTabSync(options: TabSyncOptions): TabSync | null {
+  const { channel, onMessage, lockTimeout = 10000 } = options
+
+  if (typeof window === 'undefined') return null
+
+  const storageKey = `${channel}:sync`
+  const lockName = `${channel}:refresh`
+  const tabId = `${Date.now()}-${Math.random()}`
+
+  // Refresh anunciado por outra aba (fallback sem Web Locks)
+  let remoteLock: Promise<void> | null = null
+  let releaseRemoteLock: (() => void) | null = null
+
+  const handle = (message: SyncMessage | LockMessage): void => {
+    if (message.type === 'lock') {
+      if (!remoteLock) {
+        remoteLock = new Promise<void>((resolve) => {
+          const timer = setTimeout(release, lockTimeout)
+          function release() {
+            clearTimeout(timer)
+            remoteLock = null
+            releaseRemoteLock = null
+            resolve()
+          }
+          releaseRemoteLock = release
+        })
+      }
+      return
+    }
+    if (message.type === 'unlock') {
+      releaseRemoteLock?.()
+      return
+    }
+    onMessage(message)
+  }
+
+  let broadcast: BroadcastChannel | null = null
+  let onStorage: ((event: StorageEvent) => void) | null = null
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    broadcast = new BroadcastChannel(channel)
+    broadcast.onmessage = (event: MessageEvent) => handle(event.data)
+  } else {
+    onStorage = (event: StorageEvent) => {
+      if (event.key !== storageKey || !event.newValue) return
+      try {
+        handle(JSON.parse(event.newValue).message)
+      } catch {
+        // Mensagem inválida: ignorar
+      }
+    }
+    window.addEventListener('storage', onStorage)
+  }
+
+  const send = (message: SyncMessage | LockMessage): void => {
+    if (broadcast) {
+      broadcast.postMessage(message)
+      return
+    }
+    try {
+      // O nonce garante que mensagens repetidas disparem o evento
+      const nonce = `${Date.now()}-${Math.random()}`
+      localStorage.setItem(storageKey, JSON.stringify({ message, nonce }))
+      localStorage.removeItem(storageKey)
+    } catch {
+      // localStorage indisponível (modo privado, cota): ignorar
+    }
+  }
+
+  const readLock = (): StoredLock | null => {
+    try {
+      const lock = JSON.parse(localStorage.getItem(lockName) || 'null')
+      return lock && lock.expiresAt > Date.now() ? lock : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Grava a trava desta aba; false se o localStorage estiver indisponível
+   */
+  const writeLock = (): boolean => {
+    try {
+      const lock: StoredLock = {
+        owner: tabId,
+        expiresAt: Date.now() + lockTimeout,
+      }
+      localStorage.setItem(lockName, JSON.stringify(lock))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Aguarda a trava livre, grava a desta aba e confirma a posse relendo-a
+   * após um atraso aleatório (outra aba pode ter gravado no intervalo)
+   */
+  const acquireLock = async (): Promise<void> => {
+    for (;;) {
+      while (remoteLock) {
+        await remoteLock
+      }
+      const current = readLock()
+      if (current && current.owner !== tabId) {
+        await sleep(50 + Math.random() * 100)
+        continue
+      }
+      if (!writeLock()) return
+      await sleep(20 + Math.random() * 50)
+      if (readLock()?.owner === tabId) return
+    }
+  }
+
+  const releaseLock = (): void => {
+    try {
+      if (readLock()?.owner === tabId) localStorage.removeItem(lockName)
+    } catch {
+      // localStorage indisponível: a trava não foi gravada
+    }
+  }
+
+  const runExclusive = async <R>(task: () => Promise<R>): Promise<R> => {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : null
+    if (locks) {
+      return locks.request(lockName, task) as Promise<R>
+    }
+
+    await acquireLock()
+    send({ type: 'lock' })
+    try {
+      return await task()
+    } finally {
+      releaseLock()
+      send({ type: 'unlock' })
+    }
+  }
+
+  const close = (): void => {
+    broadcast?.close()
+    if (onStorage) {
+      window.removeEventListener('storage', onStorage)
+    }
+  }
+
+  return { post: send, runExclusive, close }
+}
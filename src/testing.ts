@@ -0,0 +1,567 @@
+import { ref, shallowRef, computed, createApp, type App, type Ref } from 'vue'
+import {
+  createRouter,
+  createMemoryHistory,
+  type Router,
+  type RouteRecordRaw,
+  type RouteLocationRaw,
+  type RouteLocationNormalizedLoaded,
+  type NavigationFailure,
+} from 'vue-router'
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios'
+import { createAuth, getAuthInjectionKey, DEFAULT_AUTH_NAME } from './index'
+import { createEmitter } from './events'
+import { matchesRule } from './access'
+import { registerAuthComponents } from './components'
+import { waitForRef } from './utils'
+import { encodeUnsignedJwt } from './jwt'
+import type {
+  AccessRule,
+  AuthEventMap,
+  AuthInstance,
+  AuthOptions,
+  LoginChallenge,
+  LoginResult,
+  User,
+} from './types'
+
+// ---------------------------------------------------------------------------
+// Mock do AuthInstance
+// ---------------------------------------------------------------------------
+
+/**
+ * Estado inicial e métodos substituídos do mock do auth
+ */
+export interface MockAuthOverrides<T = User>
+  extends Partial<
+    Omit<
+      AuthInstance<T>,
+      | 'token'
+      | 'refreshToken'
+      | 'user'
+      | 'isAuthenticated'
+      | 'loading'
+      | 'roles'
+      | 'permissions'
+      | 'challenge'
+      | 'expiresAt'
+      | 'isOnline'
+      | 'pendingRequests'
+      | 'impersonating'
+      | 'originalUser'
+    >
+  > {
+  /** Nome da instância (padrão: 'default') */
+  name?: string
+  /** Usuário logado (padrão: null) */
+  user?: T | null
+  /** Autenticado (padrão: true se houver `user`) */
+  authenticated?: boolean
+  /** Token de acesso (padrão: 'mock-token' se autenticado) */
+  token?: string | null
+  /** Refresh token (padrão: 'mock-refresh' se autenticado) */
+  refreshToken?: string | null
+  /** Carregando (padrão: false) */
+  loading?: boolean
+  /** Roles do usuário (padrão: []) */
+  roles?: string[]
+  /** Permissões do usuário (padrão: []) */
+  permissions?: string[]
+  /** Desafio MFA pendente (padrão: null) */
+  challenge?: LoginChallenge | null
+  /** Online (padrão: true) */
+  isOnline?: boolean
+}
+
+/**
+ * Estado editável do mock, para simular mudanças nos testes
+ */
+export interface MockAuthState<T = User> {
+  user: Ref<T | null>
+  authenticated: Ref<boolean>
+  token: Ref<string | null>
+  refreshToken: Ref<string | null>
+  loading: Ref<boolean>
+  roles: Ref<string[]>
+  permissions: Ref<string[]>
+  challenge: Ref<LoginChallenge | null>
+  expiresAt: Ref<number | null>
+  isOnline: Ref<boolean>
+  pendingRequests: Ref<number>
+  originalUser: Ref<T | null>
+}
+
+/**
+ * AuthInstance falso, instalável com `app.use()` (ou via `global.plugins`
+ * do Vue Test Utils)
+ */
+export interface MockAuth<T = User> extends AuthInstance<T> {
+  /** Fornece o mock via provide/inject para `useAuth()` */
+  install: (app: App) => void
+  /** Estado editável do mock */
+  state: MockAuthState<T>
+}
+
+/**
+ * Cria um AuthInstance falso e reativo para testes de componentes
+ *
+ * Os métodos apenas alteram o estado do mock (sem HTTP). Substitua qualquer
+ * método pelos overrides (ex: `login: vi.fn()`).
+ *
+ * @param overrides - Estado inicial e métodos substituídos
+ * @returns MockAuth
+ *
+ * @example
+ * ```ts
+ * import { mount } from '@vue/test-utils'
+ * import { createMockAuth } from 'novadata-vue-auth/testing'
+ *
+ * const auth = createMockAuth({ user: { name: 'Ana' }, roles: ['admin'] })
+ * const wrapper = mount(Header, { global: { plugins: [auth] } })
+ *
+ * auth.state.authenticated.value = false
+ * ```
+ */
+export function createMockAuth<T = User>(
+  overrides: MockAuthOverrides<T> = {}
+): MockAuth<T> {
+  const {
+    name = DEFAULT_AUTH_NAME,
+    user: initialUser = null,
+    authenticated: initialAuthenticated = initialUser !== null,
+    token: initialToken = initialAuthenticated ? 'mock-token' : null,
+    refreshToken: initialRefresh = initialAuthenticated
+      ? 'mock-refresh'
+      : null,
+    loading: initialLoading = false,
+    roles: initialRoles = [],
+    permissions: initialPermissions = [],
+    challenge: initialChallenge = null,
+    isOnline: initialOnline = true,
+    ...methods
+  } = overrides
+
+  const state: MockAuthState<T> = {
+    user: shallowRef(initialUser),
+    authenticated: ref(initialAuthenticated),
+    token: ref(initialToken),
+    refreshToken: ref(initialRefresh),
+    loading: ref(initialLoading),
+    roles: ref(initialRoles),
+    permissions: ref(initialPermissions),
+    challenge: shallowRef(initialChallenge),
+    expiresAt: ref(null),
+    isOnline: ref(initialOnline),
+    pendingRequests: ref(0),
+    originalUser: shallowRef(null),
+  }
+
+  const events = createEmitter<AuthEventMap<T>>()
+  const sessions: { user: T | null; token: string | null }[] = []
+
+  const signIn = (): LoginResult<T> => {
+    state.authenticated.value = true
+    state.token.value = state.token.value || 'mock-token'
+    state.refreshToken.value = state.refreshToken.value || 'mock-refresh'
+    state.challenge.value = null
+    events.emit('login', { user: state.user.value as T })
+    return { success: true, user: state.user.value as T }
+  }
+
+  const clearAuth = (): void => {
+    sessions.length = 0
+    state.originalUser.value = null
+    state.user.value = null
+    state.authenticated.value = false
+    state.token.value = null
+    state.refreshToken.value = null
+    state.challenge.value = null
+  }
+
+  const auth: MockAuth<T> = {
+    name,
+    mode: 'token',
+    state,
+
+    token: computed(() => state.token.value),
+    refreshToken: computed(() => state.refreshToken.value),
+    user: computed(() => state.user.value),
+    isAuthenticated: computed(() => state.authenticated.value),
+    loading: computed(() => state.loading.value),
+    roles: computed(() =>
+      state.authenticated.value ? state.roles.value : []
+    ),
+    permissions: computed(() =>
+      state.authenticated.value ? state.permissions.value : []
+    ),
+    challenge: computed(() => state.challenge.value),
+    expiresAt: computed(() => state.expiresAt.value),
+    idle: null,
+    isOnline: computed(() => state.isOnline.value),
+    pendingRequests: computed(() => state.pendingRequests.value),
+    impersonating: computed(() => state.originalUser.value !== null),
+    originalUser: computed(() => state.originalUser.value),
+
+    login: async () => signIn(),
+    logout: async (options = {}) => {
+      clearAuth()
+      events.emit('logout', { reason: options.reason })
+    },
+    verifyChallenge: async () => signIn(),
+    resendChallenge: async () => {},
+    loginWithRedirect: async () => {},
+    handleRedirectCallback: async () => signIn(),
+    fetchUser: async () => {
+      if (state.user.value === null) {
+        throw new Error('[vue-auth] Mock user not set')
+      }
+      events.emit('userFetched', { user: state.user.value })
+      return state.user.value
+    },
+    refreshAccessToken: async () => {
+      const token = state.token.value || 'mock-token'
+      state.token.value = token
+      events.emit('tokenRefreshed', { token })
+      return token
+    },
+    clearAuth,
+    initialize: async () => {
+      state.loading.value = false
+    },
+    setUser: (userData: T) => {
+      state.user.value = userData
+    },
+    impersonate: async (targetId) => {
+      sessions.push({ user: state.user.value, token: state.token.value })
+      if (state.originalUser.value === null) {
+        state.originalUser.value = state.user.value
+      }
+      state.token.value = `mock-token:${targetId}`
+      events.emit('impersonationStarted', {
+        user: state.user.value as T,
+        originalUser: state.originalUser.value,
+      })
+      return { success: true, user: state.user.value as T }
+    },
+    stopImpersonating: async () => {
+      const saved = sessions.pop()
+      if (!saved) return
+      state.user.value = saved.user
+      state.token.value = saved.token
+      if (!sessions.length) state.originalUser.value = null
+      events.emit('impersonationStopped', { user: state.user.value })
+    },
+    redirectAfterLogin: async () => {},
+    serialize: () => ({
+      user: state.user.value,
+      authenticated: state.authenticated.value,
+    }),
+    setTokens: (token: string, refreshToken: string) => {
+      state.token.value = token
+      state.refreshToken.value = refreshToken
+    },
+    can: (permission: AccessRule) =>
+      state.authenticated.value &&
+      matchesRule(state.permissions.value, permission),
+    hasRole: (role: AccessRule) =>
+      state.authenticated.value && matchesRule(state.roles.value, role),
+
+    on: events.on,
+    off: events.off,
+    once: events.once,
+    _emit: events.emit,
+
+    install(app: App) {
+      const providedAuth = auth as unknown as AuthInstance
+      app.provide(getAuthInjectionKey(name), providedAuth)
+      const globals = app.config.globalProperties
+      globals.$auths = { ...globals.$auths, [name]: providedAuth }
+      if (name === DEFAULT_AUTH_NAME) {
+        globals.$auth = providedAuth
+      }
+      registerAuthComponents(app)
+    },
+  }
+
+  return Object.assign(auth, methods)
+}
+
+// ---------------------------------------------------------------------------
+// HTTP falso
+// ---------------------------------------------------------------------------
+
+/**
+ * Resposta roteirizada do HTTP falso
+ */
+export interface MockResponse {
+  /** Status HTTP (padrão: 200) */
+  status?: number
+  /** Corpo da resposta */
+  data?: unknown
+  /** Headers da resposta */
+  headers?: Record<string, string>
+  /** Simula falha de conexão (sem resposta do servidor) */
+  networkError?: boolean
+  /** Atraso (ms) antes de responder */
+  delay?: number
+}
+
+/**
+ * Resposta calculada a partir da requisição
+ */
+export type MockResponder = (
+  config: InternalAxiosRequestConfig
+) => MockResponse | Promise<MockResponse>
+
+/**
+ * Adapter do Axios com respostas roteirizadas
+ */
+export interface MockAdapter {
+  /** Adapter para `axios.create({ adapter })` */
+  adapter: AxiosAdapter
+  /** Responde sempre a `method url` (use '*' para qualquer método) */
+  on: (
+    method: string,
+    url: string | RegExp,
+    response: MockResponse | MockResponder
+  ) => MockAdapter
+  /** Responde uma única vez (respostas `once` têm prioridade) */
+  once: (
+    method: string,
+    url: string | RegExp,
+    response: MockResponse | MockResponder
+  ) => MockAdapter
+  /** Requisições recebidas, em ordem */
+  history: InternalAxiosRequestConfig[]
+  /** Remove as respostas e o histórico */
+  reset: () => void
+}
+
+interface MockRoute {
+  method: string
+  url: string | RegExp
+  response: MockResponse | MockResponder
+  once: boolean
+}
+
+/**
+ * Cria um adapter do Axios com respostas roteirizadas
+ *
+ * Requisições sem resposta configurada falham com 404.
+ *
+ * @returns MockAdapter
+ *
+ * @example
+ * ```ts
+ * const mock = createMockAdapter()
+ *   .on('post', '/token/', { data: { access: 'a1', refresh: 'r1' } })
+ *   .on('get', '/contexto-inicial/', { data: { id: 1 } })
+ *   .once('get', '/orders/', { status: 401 })
+ *
+ * const http = axios.create({ adapter: mock.adapter })
+ * ```
+ */
+export function createMockAdapter(): MockAdapter {
+  let routes: MockRoute[] = []
+  const history: InternalAxiosRequestConfig[] = []
+
+  const matches = (route: MockRoute, config: InternalAxiosRequestConfig) => {
+    const method = (config.method || 'get').toLowerCase()
+    if (route.method !== '*' && route.method !== method) return false
+    const url = config.url || ''
+    return typeof route.url === 'string'
+      ? route.url === url
+      : route.url.test(url)
+  }
+
+  const adapter: AxiosAdapter = async (config) => {
+    history.push(config)
+    const route =
+      routes.find((item) => item.once && matches(item, config)) ||
+      routes.find((item) => matches(item, config))
+    if (route?.once) {
+      routes = routes.filter((item) => item !== route)
+    }
+
+    let result: MockResponse = { status: 404, data: { detail: 'Not found' } }
+    if (route) {
+      result =
+        typeof route.response === 'function'
+          ? await route.response(config)
+          : route.response
+    }
+
+    if (result.delay) {
+      await new Promise((resolve) => setTimeout(resolve, result.delay))
+    }
+
+    if (result.networkError) {
+      throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config)
+    }
+
+    const status = result.status ?? 200
+    const response: AxiosResponse = {
+      data: result.data,
+      status,
+      statusText: String(status),
+      headers: new AxiosHeaders(result.headers),
+      config,
+    }
+
+    const validateStatus = config.validateStatus
+    if (!validateStatus || validateStatus(status)) {
+      return response
+    }
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      response
+    )
+  }
+
+  const add =
+    (once: boolean) =>
+    (
+      method: string,
+      url: string | RegExp,
+      response: MockResponse | MockResponder
+    ): MockAdapter => {
+      routes.push({ method: method.toLowerCase(), url, response, once })
+      return mock
+    }
+
+  const mock: MockAdapter = {
+    adapter,
+    on: add(false),
+    once: add(true),
+    history,
+    reset: () => {
+      routes = []
+      history.length = 0
+    },
+  }
+
+  return mock
+}
+
+/**
+ * Cria uma instância do Axios ligada a um adapter roteirizado
+ * @returns Axios instance e o adapter
+ */
+export function createMockHttp(): { http: AxiosInstance; mock: MockAdapter } {
+  const mock = createMockAdapter()
+  return { http: axios.create({ adapter: mock.adapter }), mock }
+}
+
+/**
+ * Gera um JWT (sem assinatura válida) com os claims informados
+ * @param claims - Claims do payload (ex: `{ exp, roles }`)
+ * @returns Token no formato `header.payload.signature`
+ */
+export function createTestJwt(claims: Record<string, unknown> = {}): string {
+  return encodeUnsignedJwt(claims, 'test')
+}
+
+// ---------------------------------------------------------------------------
+// Plugin real e navegação
+// ---------------------------------------------------------------------------
+
+/** Rotas padrão do router de teste */
+const DEFAULT_TEST_ROUTES: RouteRecordRaw[] = [
+  { path: '/', name: 'home', component: {} },
+  { path: '/login', name: 'login', component: {}, meta: { public: true } },
+  { path: '/private', name: 'private', component: {}, meta: { auth: true } },
+  { path: '/forbidden', name: 'forbidden', component: {} },
+]
+
+/**
+ * Cria um router com histórico em memória para testes de navegação
+ * @param routes - Rotas (padrão: home, login, private e forbidden)
+ * @returns Router
+ */
+export function createTestRouter(
+  routes: RouteRecordRaw[] = DEFAULT_TEST_ROUTES
+): Router {
+  return createRouter({ history: createMemoryHistory(), routes })
+}
+
+/**
+ * Navega e aguarda os guards, retornando a rota final
+ * @param router - Router de teste
+ * @param to - Destino da navegação
+ * @returns Rota atual após os guards e a falha da navegação, se houver
+ *
+ * @example
+ * ```ts
+ * const { route } = await navigate(router, '/private')
+ * expect(route.name).toBe('login')
+ * expect(route.query.redirect).toBe('/private')
+ * ```
+ */
+export async function navigate(
+  router: Router,
+  to: RouteLocationRaw
+): Promise<{
+  route: RouteLocationNormalizedLoaded
+  failure: NavigationFailure | void | undefined
+}> {
+  const failure = await router.push(to)
+  return { route: router.currentRoute.value, failure }
+}
+
+/**
+ * Instala o plugin real em um app de teste e aguarda o `initialize`
+ *
+ * Sem `http`/`router`, usa `createMockHttp()` e `createTestRouter()`.
+ *
+ * @param options - Opções do createAuth (logs desativados por padrão)
+ * @returns App, instância do auth, router e HTTP usados
+ *
+ * @example
+ * ```ts
+ * const { http, mock } = createMockHttp()
+ * mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+ *
+ * const { auth } = await installAuth({ http, storage })
+ * expect(auth.isAuthenticated.value).toBe(true)
+ * ```
+ */
+export async function installAuth<T = User>(
+  options: Partial<AuthOptions<T>> = {}
+): Promise<{
+  app: App
+  auth: AuthInstance<T>
+  router: Router
+  http: AxiosInstance
+}> {
+  const http = options.http || createMockHttp().http
+  const router = options.router || createTestRouter()
+  const name = options.name || DEFAULT_AUTH_NAME
+
+  const app = createApp({ render: () => null })
+  app.use(
+    createAuth<T>({
+      logLevel: 'silent',
+      syncTabs: false,
+      ...options,
+      http,
+      router,
+    })
+  )
+  app.use(router)
+
+  const auth = app.config.globalProperties.$auths[
+    name
+  ] as unknown as AuthInstance<T>
+  await waitForRef(auth.loading, (loading) => !loading)
+  return { app, auth, router, http }
+}
@@ -6,26 +6,80 @@ import type {
 import type {
   Router,
   RouteLocationNormalized,
+  RouteLocationRaw,
   NavigationGuardNext,
 } from 'vue-router'
 import type { ComputedRef, Ref, App } from 'vue'
+import type { JwtClaims } from './jwt'
+import type { EventHandler } from './events'
+import type { NetworkStatus } from './network'
+import type { ReturnToStore } from './redirect'
+import type { AuthGate, RequireAuth, vAuth, vGuest } from './components'
+
+/**
+ * Valor síncrono ou Promise
+ */
+export type MaybePromise<T> = T | Promise<T>
 
 /**
  * Interface para customização do storage de tokens
+ *
+ * Os métodos podem ser síncronos (localStorage) ou assíncronos
+ * (IndexedDB, Capacitor Preferences, storage criptografado, etc.)
  */
 export interface AuthStorage {
   /** Obtém o token de acesso do storage */
-  getToken: () => string | null
+  getToken: () => MaybePromise<string | null>
   /** Salva o token de acesso no storage */
-  setToken: (token: string) => void
+  setToken: (token: string) => MaybePromise<void>
   /** Remove o token de acesso do storage */
-  removeToken: () => void
+  removeToken: () => MaybePromise<void>
   /** Obtém o refresh token do storage */
-  getRefreshToken: () => string | null
+  getRefreshToken: () => MaybePromise<string | null>
   /** Salva o refresh token no storage */
-  setRefreshToken: (token: string) => void
+  setRefreshToken: (token: string) => MaybePromise<void>
   /** Remove o refresh token do storage */
-  removeRefreshToken: () => void
+  removeRefreshToken: () => MaybePromise<void>
+  /**
+   * Obtém um dado auxiliar do plugin (ex: sessões da impersonação).
+   * Opcional: sem ele, esses dados ficam apenas em memória
+   */
+  getItem?: (key: string) => MaybePromise<string | null>
+  /** Salva um dado auxiliar do plugin */
+  setItem?: (key: string, value: string) => MaybePromise<void>
+  /** Remove um dado auxiliar do plugin */
+  removeItem?: (key: string) => MaybePromise<void>
+}
+
+/**
+ * Store chave/valor genérico usado pelos adapters de storage
+ */
+export interface KeyValueStore {
+  getItem: (key: string) => MaybePromise<string | null>
+  setItem: (key: string, value: string) => MaybePromise<void>
+  removeItem: (key: string) => MaybePromise<void>
+}
+
+/**
+ * Níveis de log suportados
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+/**
+ * Contexto estruturado anexado às mensagens de log
+ */
+export interface LogContext {
+  [key: string]: unknown
+}
+
+/**
+ * Interface para customização do logger (console, Sentry, etc.)
+ */
+export interface AuthLogger {
+  debug: (message: string, context?: LogContext) => void
+  info: (message: string, context?: LogContext) => void
+  warn: (message: string, context?: LogContext) => void
+  error: (message: string, context?: LogContext) => void
 }
 
 /**
@@ -38,6 +92,22 @@ export interface AuthEndpoints {
   refresh?: string
   /** Endpoint para obter dados do usuário (padrão: '/contexto-inicial/') */
   user?: string
+  /** Endpoint para validar o código do desafio MFA (padrão: '/token/verify/') */
+  verifyChallenge?: string
+  /** Endpoint para reenviar o código do desafio MFA (padrão: '/token/resend/') */
+  resendChallenge?: string
+  /** Endpoint para revogar o refresh token no logout (opcional) */
+  logout?: string
+  /**
+   * Endpoint para revogar todas as sessões do usuário (opcional). Sem ele,
+   * `logout({ everywhere: true })` envia `everywhere: true` para `logout`
+   */
+  logoutAll?: string
+  /**
+   * Endpoint que emite tokens para outro usuário (impersonação). Recebe
+   * `{ user_id }` e responde no mesmo formato do login (opcional)
+   */
+  impersonate?: string
 }
 
 /**
@@ -54,6 +124,132 @@ export interface User {
   [key: string]: unknown
 }
 
+/**
+ * Regra de acesso por roles/permissões
+ *
+ * - `string` ou `string[]`: basta possuir um deles (any-of)
+ * - `{ any, all }`: `any` exige ao menos um, `all` exige todos
+ */
+export type AccessRule = string | string[] | { any?: string[]; all?: string[] }
+
+/**
+ * Extrai roles ou permissões a partir do usuário e/ou dos claims do token
+ */
+export type AccessExtractor<T = User> = (
+  user: T | null,
+  claims: JwtClaims | null
+) => string[]
+
+/**
+ * Callback executado quando o usuário não tem acesso à rota.
+ * Pode retornar uma rota para redirecionar ou `false` para cancelar.
+ */
+export type ForbiddenHandler = (
+  to: RouteLocationNormalized,
+  from: RouteLocationNormalized
+) => RouteLocationRaw | false | void
+
+/**
+ * Desafio de verificação adicional (MFA) retornado pelo login
+ */
+export interface LoginChallenge {
+  [key: string]: unknown
+  /** Tipo do desafio (ex: 'totp', 'sms', 'email') */
+  type: 'totp' | 'sms' | 'email' | (string & {})
+  /** Identificador do desafio, enviado na verificação */
+  id: string
+}
+
+/**
+ * Decide se a resposta do login é um desafio MFA
+ */
+export type ChallengeDetector = (
+  data: LoginResponse
+) => LoginChallenge | null
+
+/**
+ * Configuração do login via provedor OAuth2 / OpenID Connect
+ * (Authorization Code + PKCE)
+ */
+export interface OAuthOptions {
+  /** URL de autorização do provedor */
+  authorizeUrl: string
+  /** URL do token endpoint do provedor */
+  tokenUrl: string
+  /** Client ID da aplicação no provedor */
+  clientId: string
+  /** URL de retorno registrada no provedor */
+  redirectUri: string
+  /** Escopos solicitados (padrão: 'openid profile email') */
+  scope?: string
+  /** Parâmetros extras da URL de autorização (ex: audience, prompt) */
+  params?: Record<string, string>
+  /** Caminho da rota de callback (padrão: '/auth/callback') */
+  callbackPath?: string
+  /** Nome da rota de callback (padrão: 'oauth-callback') */
+  callbackRouteName?: string
+  /** Storage da transação (state, nonce, verifier) (padrão: sessionStorage) */
+  transactionStorage?: KeyValueStore
+  /** Chave da transação no storage (padrão: 'vue-auth:oauth') */
+  transactionKey?: string
+  /** Validade da transação em ms (padrão: 10 minutos) */
+  transactionTtl?: number
+}
+
+/**
+ * Opções do login
+ */
+export interface LoginOptions {
+  /**
+   * "Lembrar de mim": tokens no `storage` persistente (true) ou apenas na
+   * sessão do navegador, no `sessionOnlyStorage` (false)
+   * (padrão: `rememberByDefault`)
+   */
+  remember?: boolean
+}
+
+/**
+ * Opções do redirect para o provedor OAuth
+ */
+export interface OAuthRedirectOptions extends LoginOptions {
+  /** Rota para onde voltar após o login */
+  returnTo?: string
+  /** Parâmetros extras apenas para este redirect (ex: login_hint) */
+  params?: Record<string, string>
+}
+
+/**
+ * Opções do destino pós-login (`auth.redirectAfterLogin()`)
+ */
+export interface ReturnToOptions {
+  /**
+   * Origens externas aceitas como destino, além da origem atual
+   * (ex: ['https://admin.exemplo.com'])
+   */
+  allowedOrigins?: string[]
+  /** Store do destino salvo (padrão: sessionStorage) */
+  storage?: KeyValueStore
+  /** Chave do destino no store (padrão: 'vue-auth:return-to') */
+  key?: string
+  /** Validade (ms) do destino salvo (padrão: 30 minutos) */
+  ttl?: number
+}
+
+/**
+ * Cache do usuário para a inicialização stale-while-revalidate
+ */
+export interface UserCacheOptions {
+  /**
+   * Versão do formato do usuário: caches de outra versão são descartados
+   * (padrão: 1)
+   */
+  version?: string | number
+  /** Idade máxima (ms) do usuário em cache (padrão: 24 horas) */
+  maxAge?: number
+  /** Chave do usuário no storage dos tokens (padrão: 'user') */
+  key?: string
+}
+
 /**
  * Resultado da operação de login
  */
@@ -62,24 +258,192 @@ export interface LoginResult<T = User> {
   success: boolean
   /** Dados do usuário em caso de sucesso */
   user?: T
+  /**
+   * Desafio pendente: o login só é concluído após `verifyChallenge(code)`
+   */
+  challenge?: LoginChallenge
+  /** Destino salvo antes do redirect OAuth */
+  returnTo?: string
   /** Erro em caso de falha */
   error?: Error
   /** Mensagem de erro em caso de falha */
   message?: string
 }
 
+/**
+ * Resposta HTTP recebida pelos extratores (corpo e headers)
+ */
+export interface AuthResponse<D = unknown> {
+  data: D
+  headers: Record<string, unknown>
+}
+
+/**
+ * Tokens extraídos de uma resposta de login/refresh
+ */
+export interface AuthTokens {
+  /** Token de acesso */
+  accessToken: string
+  /** Refresh token (ausente: mantém o atual no refresh) */
+  refreshToken?: string | null
+  /** Validade do token de acesso em segundos (ex: `expires_in`) */
+  expiresIn?: number
+  /** Momento da expiração do token de acesso (timestamp em ms) */
+  expiresAt?: number
+}
+
+/**
+ * Extrai os tokens da resposta de login/refresh
+ */
+export type TokenExtractor = (response: AuthResponse) => AuthTokens
+
+/**
+ * Caminhos (dot-path) dos tokens na resposta. Os caminhos são relativos ao
+ * corpo; o prefixo `headers.` lê um header (ex: 'headers.x-access-token').
+ */
+export interface TokenMapping {
+  /** Caminho do token de acesso (ex: 'data.tokens.access') */
+  accessToken: string
+  /** Caminho do refresh token (ex: 'data.tokens.refresh') */
+  refreshToken?: string
+  /** Caminho da validade em segundos (ex: 'data.tokens.expires_in') */
+  expiresIn?: string
+  /** Caminho do momento da expiração (timestamp em segundos/ms ou ISO) */
+  expiresAt?: string
+}
+
+/**
+ * Extrai os dados do usuário da resposta do endpoint `user`
+ */
+export type UserExtractor<T = User> = (response: AuthResponse) => T
+
+/**
+ * Política de retentativas do refresh token
+ */
+export interface RetryPolicyOptions {
+  /** Número máximo de tentativas (padrão: `maxRetries`) */
+  maxAttempts?: number
+  /** Status HTTP transitórios (padrão: 408, 425, 429, 500, 502, 503, 504) */
+  retryableStatuses?: number[]
+  /** Repete erros de rede, sem resposta do servidor (padrão: true) */
+  retryOnNetworkError?: boolean
+  /** Decide se o erro é transitório (substitui as duas opções acima) */
+  isRetryable?: (error: unknown) => boolean
+  /** Espera (ms) antes da segunda tentativa (padrão: 500) */
+  baseDelay?: number
+  /** Espera máxima (ms) entre tentativas (padrão: 10000) */
+  maxDelay?: number
+  /** Fator multiplicativo do backoff (padrão: 2) */
+  factor?: number
+  /**
+   * Aleatoriza a espera para espalhar as tentativas dos clientes: `true`
+   * (full jitter), `false` ou a fração aleatória entre 0 e 1 (padrão: true)
+   */
+  jitter?: boolean | number
+  /** Tempo máximo (ms) somando todas as tentativas (padrão: 30000) */
+  maxElapsedTime?: number
+  /**
+   * Interrompe o backoff quando o navegador fica offline e aguarda a
+   * conexão voltar (padrão: true)
+   */
+  abortWhenOffline?: boolean
+}
+
+/**
+ * Modo de autenticação
+ * - `token`: tokens JWT no storage, enviados via `Authorization: Bearer`
+ * - `cookie`: sessão em cookie HttpOnly gerenciada pelo servidor
+ */
+export type AuthMode = 'token' | 'cookie'
+
+/**
+ * Proteção CSRF do modo `cookie`
+ */
+export interface CsrfOptions {
+  /** Cookie com o token CSRF (padrão: 'csrftoken') */
+  cookieName?: string
+  /** Header enviado nas requisições (padrão: 'X-CSRFToken') */
+  headerName?: string
+  /**
+   * Header da resposta com o token CSRF, quando o servidor o envia por
+   * header em vez de cookie (ex: 'X-CSRF-Token')
+   */
+  responseHeader?: string
+  /** Métodos sem CSRF (padrão: GET, HEAD, OPTIONS, TRACE) */
+  safeMethods?: string[]
+}
+
+/**
+ * Comportamento do auth sem conexão
+ */
+export interface OfflineOptions {
+  /** Máximo de requisições retidas aguardando o refresh (padrão: 50) */
+  maxQueueSize?: number
+  /**
+   * Tempo máximo (ms) que o refresh e as requisições retidas aguardam a
+   * conexão voltar (padrão: 30000)
+   */
+  queueTimeout?: number
+}
+
+/**
+ * Motivo do fim da sessão
+ * - `revoked`: refresh token inválido, revogado ou reutilizado
+ * - `rejected`: o servidor recusou o refresh com um erro não transitório
+ * - `exhausted`: tentativas ou tempo máximo esgotados
+ * - `missing-refresh-token`: não há refresh token para renovar a sessão
+ * - `unauthorized`: a requisição falhou com 401 mesmo após o refresh
+ */
+export type SessionExpiredReason =
+  | 'revoked'
+  | 'rejected'
+  | 'exhausted'
+  | 'missing-refresh-token'
+  | 'unauthorized'
+
+/**
+ * Motivo da falha do refresh: os de fim de sessão ou `network`, quando
+ * não houve conexão com o servidor (a sessão é mantida)
+ */
+export type RefreshFailureReason = SessionExpiredReason | 'network'
+
+/**
+ * Detalhes do fim da sessão
+ */
+export interface SessionExpiredInfo {
+  /** Motivo do fim da sessão */
+  reason: SessionExpiredReason
+  /** Status HTTP da última resposta, quando houver */
+  status?: number
+  /** Erro que encerrou a sessão */
+  error?: unknown
+}
+
 /**
  * Opções de configuração do plugin de autenticação
  */
 export interface AuthOptions<T = User> {
+  /**
+   * Nome da instância, para apps com mais de um backend (padrão: 'default').
+   * Instâncias nomeadas usam chaves de storage e canal de sincronização
+   * próprios e protegem apenas as rotas com `meta.authInstance` igual ao nome.
+   */
+  name?: string
   /** Instância do Axios (obrigatório) */
   http: AxiosInstance
   /** Instância do Vue Router (obrigatório) */
   router: Router
+  /**
+   * Modo de autenticação: tokens (`token`) ou sessão em cookie HttpOnly
+   * (`cookie`) (padrão: 'token')
+   */
+  mode?: AuthMode
+  /** Proteção CSRF do modo `cookie` */
+  csrf?: CsrfOptions
 
   // Callbacks
-  /** Callback executado quando a sessão expira */
-  onSessionExpired?: () => void
+  /** Callback executado quando a sessão expira, com o motivo */
+  onSessionExpired?: (info: SessionExpiredInfo) => void
   /** Callback executado quando ocorre um erro de autenticação */
   onError?: (message: string, error: Error) => void
   /** Callback executado após login bem sucedido */
@@ -94,14 +458,73 @@ export interface AuthOptions<T = User> {
   endpoints?: AuthEndpoints
   /** Storage customizado para tokens */
   storage?: AuthStorage
+  /**
+   * Storage dos tokens nos logins sem "lembrar de mim"
+   * (padrão: sessionStorage no navegador, memória no servidor)
+   */
+  sessionOnlyStorage?: AuthStorage
+  /** "Lembrar de mim" quando o login não informa `remember` (padrão: true) */
+  rememberByDefault?: boolean
   /** Nome da chave do token na resposta do login (padrão: 'token') */
   tokenKey?: string
   /** Nome da chave do refresh token na resposta (padrão: 'refresh') */
   refreshTokenKey?: string
+  /**
+   * Extrai os tokens das respostas de login/refresh: função ou caminhos
+   * (padrão: `tokenKey`/`access`/`token`, `refreshTokenKey`/`refresh`/
+   * `refresh_token` e `expires_in`)
+   */
+  extractTokens?: TokenExtractor | TokenMapping
+  /**
+   * Extrai o usuário da resposta do endpoint `user`: função ou caminho
+   * no corpo (ex: 'data.user') (padrão: corpo inteiro)
+   */
+  extractUser?: UserExtractor<T> | string
   /** Número máximo de tentativas de refresh (padrão: 3) */
   maxRetries?: number
+  /** Backoff, erros transitórios e limites das tentativas de refresh */
+  retryPolicy?: RetryPolicyOptions
+  /** Limites da fila de requisições retidas enquanto offline */
+  offline?: OfflineOptions
+  /** Tempo máximo (ms) da revogação da sessão no logout (padrão: 5000) */
+  logoutTimeout?: number
+  /** Decide se a resposta do login é um desafio MFA */
+  detectChallenge?: ChallengeDetector
+  /** Login via provedor OAuth2 / OpenID Connect */
+  oauth?: OAuthOptions
+  /**
+   * Estado serializado pelo servidor (`auth.serialize()`) para hidratar o
+   * cliente sem buscar o usuário novamente
+   */
+  initialState?: AuthSnapshot<T>
+  /** Logout automático após um período de inatividade */
+  idle?: IdleOptions
+  /**
+   * Salva o último usuário junto aos tokens: o `initialize()` usa o cache
+   * na hora e revalida o usuário em segundo plano (padrão: false)
+   */
+  userCache?: boolean | UserCacheOptions
+  /** Destino dos logs do plugin (padrão: console) */
+  logger?: AuthLogger
+  /** Nível mínimo de log (padrão: 'silent' em produção, 'info' fora) */
+  logLevel?: LogLevel
+  /**
+   * Inspector e timeline no Vue Devtools (padrão: ativo no navegador, fora
+   * de produção)
+   */
+  devtools?: boolean
+  /** Renova o token antes do `exp` do JWT, sem esperar um 401 (padrão: false) */
+  autoRefresh?: boolean
+  /** Segundos antes do `exp` em que o refresh proativo acontece (padrão: 30) */
+  refreshLeeway?: number
+  /** Sincroniza login, logout, refresh e setUser entre abas (padrão: true) */
+  syncTabs?: boolean
+  /** Nome do canal de sincronização entre abas (padrão: 'vue-auth') */
+  syncChannel?: string
 
   // Guards config
+  /** Meta key que indica a instância que protege a rota (padrão: 'authInstance') */
+  instanceMetaKey?: string
   /** Nome da rota de login (padrão: 'login') */
   loginRouteName?: string
   /** Nome da rota de reset de senha (padrão: 'redefinir-senha') */
@@ -112,36 +535,90 @@ export interface AuthOptions<T = User> {
   authMetaKey?: string
   /** Rota padrão após login (padrão: '/') */
   defaultRedirect?: string
+  /** Validação e persistência do destino pós-login */
+  returnTo?: ReturnToOptions
+  /** Nome da meta key para roles exigidas (padrão: 'roles') */
+  rolesMetaKey?: string
+  /** Nome da meta key para permissões exigidas (padrão: 'permissions') */
+  permissionsMetaKey?: string
+  /** Nome da rota exibida quando o acesso é negado */
+  forbiddenRouteName?: string
+  /** Callback executado quando o acesso é negado */
+  onForbidden?: ForbiddenHandler
+
+  // Access control
+  /** Extrai as roles do usuário (padrão: `user.roles` ou claim `roles`) */
+  getRoles?: AccessExtractor<T>
+  /** Extrai as permissões (padrão: `user.permissions` ou claim `permissions`) */
+  getPermissions?: AccessExtractor<T>
 }
 
 /**
  * Opções internas do core de autenticação
  */
 export interface AuthCoreOptions<T = User> {
+  name?: string
+  mode?: AuthMode
   endpoints?: AuthEndpoints
   storage?: AuthStorage
+  sessionOnlyStorage?: AuthStorage
+  rememberByDefault?: boolean
   tokenKey?: string
   refreshTokenKey?: string
+  extractTokens?: TokenExtractor | TokenMapping
+  extractUser?: UserExtractor<T> | string
   maxRetries?: number
+  retryPolicy?: RetryPolicyOptions
+  offline?: OfflineOptions
+  logoutTimeout?: number
+  autoRefresh?: boolean
+  refreshLeeway?: number
+  syncTabs?: boolean
+  syncChannel?: string
+  logger?: AuthLogger
+  onSessionExpired?: (info: SessionExpiredInfo) => void
   onError?: (message: string, error: Error) => void
   onLogin?: (user: T) => void
   onLogout?: () => void
   onFetchUser?: (user: T) => void
   loginRouteName?: string
+  defaultRedirect?: string
+  returnTo?: ReturnToOptions
+  getRoles?: AccessExtractor<T>
+  getPermissions?: AccessExtractor<T>
+  detectChallenge?: ChallengeDetector
+  oauth?: OAuthOptions
+  initialState?: AuthSnapshot<T>
+  idle?: IdleOptions
+  userCache?: boolean | UserCacheOptions
 }
 
 /**
  * Opções para configuração dos interceptors
  */
 export interface InterceptorOptions {
+  /** Nome da instância dona dos interceptors */
+  name?: string
+  /** Modo de autenticação (padrão: 'token') */
+  mode?: AuthMode
+  /** Proteção CSRF do modo `cookie` */
+  csrf?: CsrfOptions
   /** Callback executado quando a sessão expira */
-  onSessionExpired?: () => void
+  onSessionExpired?: (info: SessionExpiredInfo) => void
+  /** Limites da fila de requisições retidas enquanto offline */
+  offline?: OfflineOptions
+  /** Logger usado pelos interceptors */
+  logger?: AuthLogger
 }
 
 /**
  * Opções para configuração dos guards
  */
 export interface GuardOptions {
+  /** Nome da instância dona dos guards */
+  name?: string
+  /** Meta key que indica a instância que protege a rota */
+  instanceMetaKey?: string
   /** Nome da rota de login */
   loginRouteName?: string
   /** Nome da rota de reset de senha */
@@ -152,12 +629,153 @@ export interface GuardOptions {
   authMetaKey?: string
   /** Rota padrão após login */
   defaultRedirect?: string
+  /** Nome da meta key para roles exigidas */
+  rolesMetaKey?: string
+  /** Nome da meta key para permissões exigidas */
+  permissionsMetaKey?: string
+  /** Nome da rota exibida quando o acesso é negado */
+  forbiddenRouteName?: string
+  /** Callback executado quando o acesso é negado */
+  onForbidden?: ForbiddenHandler
+  /** Logger usado pelos guards */
+  logger?: AuthLogger
+}
+
+/**
+ * Motivo do logout (enviado em `query.reason` para a rota de login)
+ */
+export type LogoutReason = 'user' | 'idle' | 'expired' | (string & {})
+
+/**
+ * Opções do logout
+ */
+export interface LogoutOptions {
+  /** Motivo do logout, repassado à rota de login e ao evento `logout` */
+  reason?: LogoutReason
+  /** Revoga todas as sessões do usuário, não apenas a atual (padrão: false) */
+  everywhere?: boolean
+  /** Redireciona para a rota de login (padrão: true) */
+  redirect?: boolean
+}
+
+/**
+ * Configuração do logout automático por inatividade
+ */
+export interface IdleOptions {
+  /** Tempo de inatividade (ms) até o logout */
+  timeout: number
+  /** Antecedência (ms) do aviso antes do logout (padrão: 60000) */
+  warningTime?: number
+  /** Eventos do window considerados atividade */
+  events?: string[]
+  /** Intervalo (ms) de atualização da contagem (padrão: 1000) */
+  interval?: number
+}
+
+/**
+ * Estado reativo da inatividade, disponível via useIdle()
+ */
+export interface IdleState {
+  /** Indica se a sessão foi encerrada por inatividade */
+  isIdle: ComputedRef<boolean>
+  /** Tempo restante (ms) até o logout por inatividade */
+  remainingMs: ComputedRef<number>
+  /** Indica se o aviso de logout deve ser exibido */
+  warningActive: ComputedRef<boolean>
+  /** Registra atividade e reinicia a contagem (ex: botão "continuar") */
+  extend: () => void
 }
 
+/**
+ * Estado serializado no servidor para hidratação no cliente (SSR)
+ */
+export interface AuthSnapshot<T = User> {
+  /** Dados do usuário autenticado */
+  user: T | null
+  /** Indica se o usuário está autenticado */
+  authenticated: boolean
+}
+
+/**
+ * Sessão salva ao iniciar uma impersonação, restaurada ao encerrá-la
+ */
+export interface ImpersonationFrame<T = User> {
+  /** Token de acesso da sessão salva */
+  token: string | null
+  /** Refresh token da sessão salva */
+  refreshToken: string | null
+  /** Expiração informada pela resposta (ms) */
+  expiresAt: number | null
+  /** Usuário da sessão salva */
+  user: T | null
+}
+
+/**
+ * Motivo do redirect feito pelos guards
+ * - `unauthenticated`: rota protegida sem login
+ * - `authenticated`: usuário autenticado na página de login
+ * - `forbidden`: roles/permissões insuficientes
+ */
+export type GuardRedirectReason =
+  | 'unauthenticated'
+  | 'authenticated'
+  | 'forbidden'
+
+/**
+ * Eventos do ciclo de vida da autenticação e seus payloads
+ */
+export interface AuthEventMap<T = User> {
+  /** Login bem sucedido */
+  login: { user: T }
+  /** Login requer verificação adicional (MFA) */
+  challenge: { challenge: LoginChallenge }
+  /** Logout realizado */
+  logout: { reason?: LogoutReason }
+  /** Tentativa de refresh iniciada */
+  refreshAttempt: { attempt: number; maxAttempts: number }
+  /** Token de acesso renovado */
+  tokenRefreshed: { token: string }
+  /** Todas as tentativas de refresh falharam */
+  refreshFailed: { error: Error }
+  /** Sessão expirou (refresh impossível) */
+  sessionExpired: SessionExpiredInfo
+  /** 401 interceptado em uma requisição da instância */
+  unauthorized: { url?: string; method?: string }
+  /** Requisição reenviada com o token renovado */
+  requestReplayed: { url?: string; method?: string }
+  /**
+   * Navegação redirecionada pelos guards (`redirect` null: navegação
+   * cancelada)
+   */
+  guardRedirect: {
+    to: string
+    redirect: string | null
+    reason: GuardRedirectReason
+  }
+  /** Dados do usuário carregados */
+  userFetched: { user: T }
+  /** Impersonação iniciada */
+  impersonationStarted: { user: T; originalUser: T | null }
+  /** Impersonação encerrada, sessão anterior restaurada */
+  impersonationStopped: { user: T | null }
+  /** Erro de autenticação */
+  error: { message: string; error: Error }
+}
+
+/**
+ * Nome de um evento de autenticação
+ */
+export type AuthEventName = keyof AuthEventMap
+
 /**
  * Instância do Auth disponível via useAuth()
  */
 export interface AuthInstance<T = User> {
+  /** Nome da instância */
+  name: string
+  /** Modo de autenticação */
+  mode: AuthMode
+
   // State (reativo)
   /** Token de acesso atual */
   token: ComputedRef<string | null>
@@ -169,12 +787,49 @@ export interface AuthInstance<T = User> {
   isAuthenticated: ComputedRef<boolean>
   /** Indica se está carregando */
   loading: ComputedRef<boolean>
+  /** Roles do usuário atual */
+  roles: ComputedRef<string[]>
+  /** Permissões do usuário atual */
+  permissions: ComputedRef<string[]>
+  /** Desafio MFA pendente do último login */
+  challenge: ComputedRef<LoginChallenge | null>
+  /**
+   * Expiração do token de acesso (timestamp em ms), informada pela resposta
+   * ou pelo claim `exp` do JWT
+   */
+  expiresAt: ComputedRef<number | null>
+  /** Estado da inatividade (null se a opção `idle` não foi configurada) */
+  idle: IdleState | null
+  /** Indica se o navegador está online */
+  isOnline: ComputedRef<boolean>
+  /** Requisições retidas aguardando o refresh ou a volta da conexão */
+  pendingRequests: ComputedRef<number>
+  /** Indica se há uma impersonação ativa */
+  impersonating: ComputedRef<boolean>
+  /** Usuário que iniciou a impersonação (null sem impersonação) */
+  originalUser: ComputedRef<T | null>
 
   // Methods
-  /** Realiza o login com as credenciais fornecidas */
-  login: (credentials: LoginCredentials) => Promise<LoginResult<T>>
+  /**
+   * Realiza o login com as credenciais fornecidas
+   * (`{ remember: false }`: sessão apenas até fechar o navegador)
+   */
+  login: (
+    credentials: LoginCredentials,
+    options?: LoginOptions
+  ) => Promise<LoginResult<T>>
   /** Realiza o logout */
-  logout: () => Promise<void>
+  logout: (options?: LogoutOptions) => Promise<void>
+  /** Conclui o login enviando o código do desafio pendente */
+  verifyChallenge: (code: string) => Promise<LoginResult<T>>
+  /** Solicita o reenvio do código do desafio pendente */
+  resendChallenge: () => Promise<void>
+  /** Redireciona para o provedor OAuth (requer a opção `oauth`) */
+  loginWithRedirect: (options?: OAuthRedirectOptions) => Promise<void>
+  /** Conclui o login OAuth a partir da query do callback */
+  handleRedirectCallback: (
+    query: Record<string, unknown>
+  ) => Promise<LoginResult<T>>
   /** Busca os dados do usuário */
   fetchUser: () => Promise<T>
   /** Atualiza o token de acesso usando o refresh token */
@@ -185,14 +840,60 @@ export interface AuthInstance<T = User> {
   initialize: () => Promise<void>
   /** Define os dados do usuário manualmente */
   setUser: (userData: T) => void
+  /**
+   * Entra na conta de outro usuário (requer `endpoints.impersonate`),
+   * salvando a sessão atual para `stopImpersonating()`
+   */
+  impersonate: (targetId: string | number) => Promise<LoginResult<T>>
+  /** Encerra a impersonação atual e restaura a sessão anterior */
+  stopImpersonating: () => Promise<void>
+  /**
+   * Navega para o destino pós-login: `query.redirect` ou o destino salvo
+   * pelos guards, se forem seguros, senão `defaultRedirect`
+   */
+  redirectAfterLogin: () => Promise<void>
+  /** Serializa user/autenticação para hidratação no cliente (SSR) */
+  serialize: () => AuthSnapshot<T>
   /** Define os tokens manualmente */
   setTokens: (token: string, refreshToken: string) => void
+  /** Verifica se o usuário possui a(s) permissão(ões) */
+  can: (permission: AccessRule) => boolean
+  /** Verifica se o usuário possui a(s) role(s) */
+  hasRole: (role: AccessRule) => boolean
+
+  // Events
+  /** Registra um handler para o evento; retorna a função para removê-lo */
+  on: <K extends keyof AuthEventMap<T>>(
+    event: K,
+    handler: EventHandler<AuthEventMap<T>[K]>
+  ) => () => void
+  /** Remove um handler registrado */
+  off: <K extends keyof AuthEventMap<T>>(
+    event: K,
+    handler: EventHandler<AuthEventMap<T>[K]>
+  ) => void
+  /** Registra um handler executado apenas uma vez */
+  once: <K extends keyof AuthEventMap<T>>(
+    event: K,
+    handler: EventHandler<AuthEventMap<T>[K]>
+  ) => () => void
 
   // Internal refs (para uso nos interceptors/guards)
   /** @internal */
   _http?: AxiosInstance
   /** @internal */
   _router?: Router
+  /** @internal */
+  _network?: NetworkStatus
+  /** @internal */
+  _returnTo?: ReturnToStore
+  /** @internal Encerra o canal entre abas e os listeners (app.unmount) */
+  _dispose?: () => void
+  /** @internal */
+  _emit?: <K extends keyof AuthEventMap<T>>(
+    event: K,
+    ...payload: [AuthEventMap<T>[K]] extends [void] ? [] : [AuthEventMap<T>[K]]
+  ) => void
 }
 
 /**
@@ -206,6 +907,7 @@ export interface AuthPlugin {
  * Extensão do AxiosRequestConfig para flags internas
  */
 export interface AuthAxiosRequestConfig extends InternalAxiosRequestConfig {
+  authInstance?: string
   _skipAuthRefresh?: boolean
   _retry?: boolean
   headers: InternalAxiosRequestConfig['headers']
@@ -229,4 +931,38 @@ export interface RefreshResponse {
   [key: string]: unknown
   access?: string
   token?: string
+  /** Novo refresh token, quando o servidor faz rotação */
+  refresh?: string
+  refresh_token?: string
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /**
+     * Instância do auth responsável pela requisição, quando várias
+     * instâncias compartilham o mesmo Axios
+     */
+    authInstance?: string
+    /** Não tenta o refresh do token quando a requisição recebe 401 */
+    _skipAuthRefresh?: boolean
+  }
+}
+
+// Propriedades globais, componentes e diretivas registrados pelo plugin
+// (tipagem no Volar)
+declare module 'vue' {
+  interface ComponentCustomProperties {
+    /** Instância 'default' do auth */
+    $auth: AuthInstance
+    /** Instâncias do auth por nome */
+    $auths: Record<string, AuthInstance>
+  }
+  interface GlobalComponents {
+    AuthGate: typeof AuthGate
+    RequireAuth: typeof RequireAuth
+  }
+  interface GlobalDirectives {
+    vAuth: typeof vAuth
+    vGuest: typeof vGuest
+  }
 }
@@ -61,3 +61,40 @@ export function waitForRef<T>(
 export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
+
+/**
+ * Verifica se o valor é uma Promise (ou thenable)
+ * @param value - Value to check
+ * @returns true se o valor possuir `then`
+ */
+export function isPromiseLike<T = unknown>(
+  value: unknown
+): value is PromiseLike<T> {
+  return (
+    !!value &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as PromiseLike<T>).then === 'function'
+  )
+}
+
+/**
+ * Indica se o código está rodando no navegador (false durante SSR)
+ * @returns true se `window` e `document` existirem
+ */
+export function isBrowser(): boolean {
+  return typeof window !== 'undefined' && typeof document !== 'undefined'
+}
+
+/**
+ * Indica se o app roda em produção. `process.env.NODE_ENV` fica escrito por
+ * extenso para que o bundler substitua o valor no build; sem a substituição
+ * e sem `process` (navegador), o acesso lança e conta como desenvolvimento
+ * @returns true se `NODE_ENV` for 'production'
+ */
+export function isProduction(): boolean {
+  try {
+    return process.env.NODE_ENV === 'production'
+  } catch {
+    return false
+  }
+}
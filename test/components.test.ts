@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { createSSRApp } from 'vue'
+import { renderToString } from 'vue/server-renderer'
+import { createMockAuth, type MockAuthOverrides } from '../src/testing'
+
+/**
+ * Renderiza o template com o auth falso instalado
+ */
+function render(template: string, overrides: MockAuthOverrides = {}) {
+  const auth = createMockAuth(overrides)
+  const app = createSSRApp({ template }).use(auth)
+  return renderToString(app)
+}
+
+describe('<AuthGate>', () => {
+  const template = `
+    <AuthGate>
+      <template #loading>carregando</template>
+      <template #authenticated="{ user }">olá {{ user.name }}</template>
+      <template #guest>entrar</template>
+    </AuthGate>
+  `
+
+  it('renderiza o slot de cada estado', async () => {
+    expect(await render(template, { loading: true })).toContain('carregando')
+    expect(await render(template, { user: { name: 'Ana' } })).toContain(
+      'olá Ana'
+    )
+    expect(await render(template)).toContain('entrar')
+  })
+})
+
+describe('<RequireAuth>', () => {
+  const template = `
+    <RequireAuth roles="admin">
+      painel
+      <template #fallback>restrito</template>
+    </RequireAuth>
+  `
+
+  it('exige autenticação e as roles informadas', async () => {
+    expect(await render(template)).toContain('restrito')
+    expect(await render(template, { user: { id: 1 } })).toContain('restrito')
+    expect(
+      await render(template, { user: { id: 1 }, roles: ['admin'] })
+    ).toContain('painel')
+  })
+})
+
+describe('v-auth / v-guest', () => {
+  const template = `
+    <div>
+      <a v-auth>sair</a>
+      <a v-auth="{ permissions: 'reports.view' }">relatórios</a>
+      <a v-guest>entrar</a>
+    </div>
+  `
+
+  it('esconde os elementos conforme o estado', async () => {
+    const guest = await render(template)
+    expect(guest).toContain('<a style="display:none;">sair</a>')
+    expect(guest).toContain('<a>entrar</a>')
+
+    const user = await render(template, {
+      user: { id: 1 },
+      permissions: ['reports.view'],
+    })
+    expect(user).toContain('<a>sair</a>')
+    expect(user).toContain('<a>relatórios</a>')
+    expect(user).toContain('<a style="display:none;">entrar</a>')
+  })
+
+  it('falha com uma instância não instalada', async () => {
+    await expect(render('<a v-auth:admin>x</a>')).rejects.toThrow(
+      'Auth instance "admin" not installed'
+    )
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest'
+import { memoryStorageAdapter } from '../src'
+import { createMockHttp, installAuth } from '../src/testing'
+
+/**
+ * Instala o auth no modo `cookie`, com o CSRF enviado por header
+ */
+async function setup(user = { status: 200, data: { id: 1 } }) {
+  const { http, mock } = createMockHttp()
+  mock.on('get', '/contexto-inicial/', {
+    ...user,
+    headers: { 'x-csrf-token': 'csrf-1' },
+  })
+  mock.on('post', '/orders/', { data: {} })
+  const onSessionExpired = vi.fn()
+  const storage = memoryStorageAdapter()
+  const { auth } = await installAuth({
+    http,
+    storage,
+    mode: 'cookie',
+    csrf: { responseHeader: 'X-CSRF-Token' },
+    onSessionExpired,
+  })
+  return { auth, http, mock, storage, onSessionExpired }
+}
+
+describe('modo cookie', () => {
+  it('autentica pela sessão do servidor, sem tokens', async () => {
+    const { auth, mock, storage } = await setup()
+
+    expect(auth.isAuthenticated.value).toBe(true)
+    expect(auth.token.value).toBeNull()
+    expect(storage.getToken()).toBeNull()
+    expect(mock.history[0].withCredentials).toBe(true)
+    expect(mock.history[0].headers.Authorization).toBeUndefined()
+  })
+
+  it('envia o CSRF apenas nos métodos não seguros', async () => {
+    const { http, mock } = await setup()
+
+    await http.post('/orders/', {})
+
+    expect(mock.history[0].headers['X-CSRFToken']).toBeUndefined()
+    expect(mock.history[1].headers['X-CSRFToken']).toBe('csrf-1')
+  })
+
+  it('encerra a sessão em um 401, sem refresh', async () => {
+    const { http, mock, onSessionExpired } = await setup()
+    mock.once('post', '/orders/', { status: 401 })
+
+    await expect(http.post('/orders/', {})).rejects.toMatchObject({
+      response: { status: 401 },
+    })
+
+    expect(onSessionExpired.mock.calls[0][0]).toMatchObject({
+      reason: 'unauthorized',
+    })
+    expect(mock.history.map((config) => config.url)).not.toContain(
+      '/token/refresh/'
+    )
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import type {
+  Context,
+  CustomInspectorOptions,
+  DevtoolsPluginApi,
+  PluginQueueItem,
+  TimelineEvent,
+} from '@vue/devtools-api'
+import { memoryStorageAdapter, decodeJwt } from '../src'
+import { maskToken } from '../src/devtools'
+import {
+  createMockHttp,
+  createTestJwt,
+  installAuth,
+  navigate,
+} from '../src/testing'
+
+declare global {
+  // Fila do devtools-api enquanto o hook global não existe
+  var __VUE_DEVTOOLS_PLUGINS__: PluginQueueItem[] | undefined
+}
+
+type DevtoolsApi = DevtoolsPluginApi<unknown>
+type StateHandler = Parameters<DevtoolsApi['on']['getInspectorState']>[0]
+type StatePayload = Parameters<StateHandler>[0]
+type FakeMethods =
+  | 'now'
+  | 'addInspector'
+  | 'addTimelineLayer'
+  | 'addTimelineEvent'
+  | 'sendInspectorTree'
+  | 'sendInspectorState'
+
+/**
+ * API falsa do devtools: guarda o inspector, o handler do estado e a timeline
+ */
+function createFakeApi() {
+  const inspectors: CustomInspectorOptions[] = []
+  const timeline: TimelineEvent[] = []
+  const handlers: { getInspectorState?: (payload: StatePayload) => void } = {}
+  const api: Pick<DevtoolsApi, FakeMethods> & {
+    on: Pick<DevtoolsApi['on'], 'getInspectorTree' | 'getInspectorState'>
+  } = {
+    now: () => Date.now(),
+    addInspector: (options) => inspectors.push(options),
+    addTimelineLayer: vi.fn(),
+    addTimelineEvent: ({ event }) => timeline.push(event),
+    sendInspectorTree: vi.fn(),
+    sendInspectorState: vi.fn(),
+    on: {
+      getInspectorTree: vi.fn(),
+      getInspectorState: (handler) => {
+        handlers.getInspectorState = (payload) =>
+          void handler(payload, {} as Context)
+      },
+    },
+  }
+  return { api, inspectors, timeline, handlers }
+}
+
+/**
+ * Instala o auth com o devtools ativo e conecta a API falsa
+ */
+async function setup() {
+  const token = createTestJwt({ sub: '1', exp: 4102444800 })
+  const storage = memoryStorageAdapter()
+  storage.setToken('stale')
+  storage.setRefreshToken('refresh-token-0123456789')
+
+  const { http, mock } = createMockHttp()
+  mock.on('get', '/contexto-inicial/', (config) =>
+    config.headers.Authorization === `Bearer ${token}`
+      ? { data: { id: 1 } }
+      : { status: 401 }
+  )
+  mock.on('post', '/token/refresh/', { data: { access: token } })
+
+  const fake = createFakeApi()
+  const { auth, router } = await installAuth({ http, storage, devtools: true })
+  const { setupFn } = queuedPlugins()[0]
+  setupFn(fake.api as unknown as Parameters<typeof setupFn>[0])
+  return { ...fake, auth, router, token }
+}
+
+/**
+ * Plugins aguardando o devtools (sem o hook global, ficam nesta fila)
+ */
+function queuedPlugins(): PluginQueueItem[] {
+  return globalThis.__VUE_DEVTOOLS_PLUGINS__ ?? []
+}
+
+afterEach(() => {
+  delete globalThis.__VUE_DEVTOOLS_PLUGINS__
+})
+
+describe('devtools', () => {
+  it('mascara os tokens', () => {
+    expect(maskToken(null)).toBeNull()
+    expect(maskToken('short')).toBe('••••••••')
+    expect(maskToken('abcdefghijklmnopqrstuvwxyz')).toBe('abcdefgh…wxyz')
+  })
+
+  it('não registra o plugin com `devtools: false`', async () => {
+    const { http } = createMockHttp()
+    await installAuth({ http, devtools: false })
+    expect(queuedPlugins()).toHaveLength(0)
+  })
+
+  it('mostra o estado com tokens mascarados e claims', async () => {
+    const { handlers, inspectors, token } = await setup()
+    const payload: StatePayload = {
+      app: null,
+      inspectorId: inspectors[0].id,
+      nodeId: 'default',
+      state: {},
+    }
+
+    handlers.getInspectorState!(payload)
+
+    const tokens = Object.fromEntries(
+      payload.state.tokens.map(({ key, value }) => [key, value])
+    )
+    expect(tokens.token).toBe(maskToken(token))
+    expect(tokens.token).not.toBe(token)
+    expect(tokens.refreshToken).toBe('refresh-…6789')
+    expect(payload.state.claims).toContainEqual({ key: 'sub', value: '1' })
+  })
+
+  it('registra 401, refresh, reenvio e redirects na timeline', async () => {
+    const { auth, router, timeline, inspectors } = await setup()
+
+    // Expira o token pela ação do inspector e força um novo 401
+    inspectors[0].actions![1].action()
+    expect(decodeJwt(auth.token.value)!.exp).toBeLessThan(Date.now() / 1000)
+    await auth.fetchUser()
+
+    await auth.logout()
+    await navigate(router, '/private')
+
+    expect(timeline.map((event) => event.title)).toEqual([
+      '401',
+      'refresh',
+      'refresh ok',
+      'reenvio',
+      'logout',
+      'redirect do guard',
+    ])
+    expect(timeline[5].data).toMatchObject({
+      to: '/private',
+      reason: 'unauthenticated',
+    })
+  })
+})
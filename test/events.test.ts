@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createEmitter } from '../src/events'
+
+type Events = { login: { id: number }; logout: void }
+
+describe('eventos', () => {
+  it('executa o handler do `once` apenas uma vez', () => {
+    const events = createEmitter<Events>()
+    const handler = vi.fn()
+    events.once('login', handler)
+
+    events.emit('login', { id: 1 })
+    events.emit('login', { id: 2 })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler).toHaveBeenCalledWith({ id: 1 })
+  })
+
+  it('`off` remove o handler do `once` antes de disparar', () => {
+    const events = createEmitter<Events>()
+    const handler = vi.fn()
+    events.once('logout', handler)
+
+    events.off('logout', handler)
+    events.emit('logout')
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('isola os erros dos handlers', () => {
+    const onHandlerError = vi.fn()
+    const events = createEmitter<Events>(onHandlerError)
+    const error = new Error('falhou')
+    const handler = vi.fn()
+    events.on('logout', () => {
+      throw error
+    })
+    events.on('logout', handler)
+
+    events.emit('logout')
+
+    expect(handler).toHaveBeenCalled()
+    expect(onHandlerError).toHaveBeenCalledWith('logout', error)
+  })
+})
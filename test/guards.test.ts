@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { memoryStorageAdapter } from '../src'
+import {
+  createMockHttp,
+  createTestRouter,
+  installAuth,
+  navigate,
+} from '../src/testing'
+
+/**
+ * Instala o auth com rotas protegidas por auth, role e permissão
+ */
+async function setup(user: Record<string, unknown> | null) {
+  const storage = memoryStorageAdapter()
+  const { http, mock } = createMockHttp()
+  if (user) {
+    storage.setToken('token')
+    storage.setRefreshToken('refresh')
+    mock.on('get', '/contexto-inicial/', { data: user })
+  }
+
+  const router = createTestRouter([
+    { path: '/', name: 'home', component: {} },
+    { path: '/login', name: 'login', component: {}, meta: { public: true } },
+    { path: '/private', name: 'private', component: {}, meta: { auth: true } },
+    { path: '/admin', name: 'admin', component: {}, meta: { roles: 'admin' } },
+    {
+      path: '/reports',
+      name: 'reports',
+      component: {},
+      meta: { permissions: { all: ['reports.view', 'reports.export'] } },
+    },
+    { path: '/forbidden', name: 'forbidden', component: {} },
+  ])
+
+  const installed = await installAuth({
+    http,
+    router,
+    storage,
+    forbiddenRouteName: 'forbidden',
+  })
+  return installed
+}
+
+describe('guards', () => {
+  it('redireciona para o login guardando o destino', async () => {
+    const { router } = await setup(null)
+
+    const { route } = await navigate(router, '/private')
+
+    expect(route.name).toBe('login')
+    expect(route.query.redirect).toBe('/private')
+  })
+
+  it('libera rotas protegidas para usuários autenticados', async () => {
+    const { router } = await setup({ id: 1 })
+
+    const { route } = await navigate(router, '/private')
+
+    expect(route.name).toBe('private')
+  })
+
+  it('tira o usuário autenticado da página de login', async () => {
+    const { router } = await setup({ id: 1 })
+
+    const { route } = await navigate(router, '/login')
+
+    expect(route.fullPath).toBe('/')
+  })
+
+  it('envia para a rota de acesso negado sem a role exigida', async () => {
+    const { router } = await setup({ id: 1, roles: ['support'] })
+
+    const { route } = await navigate(router, '/admin')
+
+    expect(route.name).toBe('forbidden')
+    expect(route.query.from).toBe('/admin')
+  })
+
+  it('exige todas as permissões de uma regra `all`', async () => {
+    const { router } = await setup({ id: 1, permissions: ['reports.view'] })
+    expect((await navigate(router, '/reports')).route.name).toBe('forbidden')
+
+    const { router: granted } = await setup({
+      id: 1,
+      permissions: ['reports.view', 'reports.export'],
+    })
+    expect((await navigate(granted, '/reports')).route.name).toBe('reports')
+  })
+
+  it('remove a query de logout após o redirect', async () => {
+    const { router } = await setup(null)
+
+    const { route } = await navigate(router, '/login?logout=true')
+
+    expect(route.name).toBe('login')
+    expect(route.query.logout).toBeUndefined()
+  })
+})
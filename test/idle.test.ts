@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createIdleTracker } from '../src/idle'
+
+const STORAGE_KEY = 'vue-auth:idle'
+const TIMEOUT = 10000
+
+/**
+ * localStorage compartilhado entre as "abas" do teste
+ */
+function createLocalStorage() {
+  const data = new Map<string, string>()
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      data.set(key, value)
+    },
+    removeItem: (key: string) => {
+      data.delete(key)
+    },
+  }
+}
+
+/**
+ * Cria o monitoramento de uma aba, registrando os timeouts
+ */
+function createTab() {
+  const timeouts: boolean[] = []
+  const tracker = createIdleTracker(
+    { timeout: TIMEOUT, warningTime: 1000, storageKey: STORAGE_KEY },
+    (leader) => timeouts.push(leader)
+  )
+  return { tracker, timeouts }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  const listeners = { addEventListener: vi.fn(), removeEventListener: vi.fn() }
+  vi.stubGlobal('window', listeners)
+  vi.stubGlobal('document', { ...listeners, visibilityState: 'visible' })
+  vi.stubGlobal('localStorage', createLocalStorage())
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('inatividade', () => {
+  it('abrir outra aba não estende a sessão', () => {
+    const first = createTab()
+    first.tracker.start()
+    const activity = localStorage.getItem(STORAGE_KEY)
+
+    vi.advanceTimersByTime(6000)
+    const second = createTab()
+    second.tracker.start()
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBe(activity)
+    expect(second.tracker.remainingMs.value).toBe(4000)
+  })
+
+  it('apenas a primeira aba a esgotar o tempo lidera o logout', () => {
+    const first = createTab()
+    const second = createTab()
+    first.tracker.start()
+    second.tracker.start()
+
+    vi.advanceTimersByTime(TIMEOUT)
+
+    expect([...first.timeouts, ...second.timeouts]).toEqual([true, false])
+    expect(first.tracker.isIdle.value).toBe(true)
+    expect(second.tracker.isIdle.value).toBe(true)
+  })
+
+  it('extend() reinicia a contagem compartilhada', () => {
+    const first = createTab()
+    first.tracker.start()
+
+    vi.advanceTimersByTime(6000)
+    first.tracker.extend()
+    const second = createTab()
+    second.tracker.start()
+
+    expect(second.tracker.remainingMs.value).toBe(TIMEOUT)
+  })
+})
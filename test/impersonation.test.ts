@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { memoryStorageAdapter } from '../src'
+import { createMockHttp, installAuth } from '../src/testing'
+
+const LOGOUT_ENDPOINT = '/token/logout/'
+
+/**
+ * Instala o auth com o suporte logado e impersonando o usuário 42
+ */
+async function setup() {
+  const { http, mock } = createMockHttp()
+  mock.on('post', '/token/', { data: { access: 'admin', refresh: 'admin-r' } })
+  mock.on('post', '/impersonate/', {
+    data: { access: 'ana', refresh: 'ana-r' },
+  })
+  mock.on('get', '/contexto-inicial/', (config) => ({
+    data: { id: config.headers.Authorization === 'Bearer ana' ? 42 : 1 },
+  }))
+  mock.on('post', LOGOUT_ENDPOINT, { data: {} })
+
+  const { auth } = await installAuth({
+    http,
+    storage: memoryStorageAdapter(),
+    endpoints: { logout: LOGOUT_ENDPOINT, impersonate: '/impersonate/' },
+  })
+  await auth.login({ username: 'suporte', password: 'secret' })
+  await auth.impersonate(42)
+
+  /** Refresh tokens enviados ao endpoint de logout */
+  const revoked = () =>
+    mock.history
+      .filter((config) => config.url === LOGOUT_ENDPOINT)
+      .map((config) => JSON.parse(config.data).refresh)
+
+  return { auth, revoked }
+}
+
+describe('impersonação', () => {
+  it('revoga as sessões guardadas no logout', async () => {
+    const { auth, revoked } = await setup()
+    expect(auth.impersonating.value).toBe(true)
+
+    await auth.logout()
+
+    expect(revoked().sort()).toEqual(['admin-r', 'ana-r'])
+    expect(auth.impersonating.value).toBe(false)
+  })
+
+  it('revoga as sessões guardadas ao limpar a sessão', async () => {
+    const { auth, revoked } = await setup()
+
+    auth.clearAuth()
+    await new Promise((resolve) => setTimeout(resolve))
+
+    expect(revoked()).toEqual(['admin-r'])
+  })
+})
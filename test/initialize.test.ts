@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest'
+import { memoryStorageAdapter } from '../src'
+import { createMockHttp, createTestJwt, installAuth } from '../src/testing'
+
+describe('initialize', () => {
+  it('sem token, termina sem buscar o usuário', async () => {
+    const { http, mock } = createMockHttp()
+
+    const { auth } = await installAuth({ http })
+
+    expect(auth.loading.value).toBe(false)
+    expect(auth.isAuthenticated.value).toBe(false)
+    expect(mock.history).toHaveLength(0)
+  })
+
+  it('com token salvo, busca o usuário e autentica', async () => {
+    const storage = memoryStorageAdapter()
+    storage.setToken('token')
+    storage.setRefreshToken('refresh')
+    const { http, mock } = createMockHttp()
+    mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+
+    const { auth } = await installAuth({ http, storage })
+
+    expect(auth.isAuthenticated.value).toBe(true)
+    expect(auth.user.value).toEqual({ id: 1 })
+    expect(mock.history[0].headers.Authorization).toBe('Bearer token')
+  })
+
+  it('aguarda storages assíncronos antes de buscar o usuário', async () => {
+    const values = new Map([
+      ['token', 'token'],
+      ['refresh_token', 'refresh'],
+    ])
+    const { http, mock } = createMockHttp()
+    mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+
+    const { auth } = await installAuth({
+      http,
+      storage: {
+        getToken: async () => values.get('token') ?? null,
+        setToken: async () => {},
+        removeToken: async () => {},
+        getRefreshToken: async () => values.get('refresh_token') ?? null,
+        setRefreshToken: async () => {},
+        removeRefreshToken: async () => {},
+      },
+    })
+
+    expect(auth.isAuthenticated.value).toBe(true)
+  })
+
+  it('usa o estado do servidor (SSR) sem buscar o usuário', async () => {
+    const { http, mock } = createMockHttp()
+
+    const { auth } = await installAuth({
+      http,
+      initialState: { user: { id: 7 }, authenticated: true },
+    })
+
+    expect(auth.isAuthenticated.value).toBe(true)
+    expect(auth.user.value).toEqual({ id: 7 })
+    expect(mock.history).toHaveLength(0)
+  })
+
+  it('conclui o login salvando os tokens e buscando o usuário', async () => {
+    const storage = memoryStorageAdapter()
+    const token = createTestJwt({ roles: ['admin'] })
+    const { http, mock } = createMockHttp()
+    mock.on('post', '/token/', { data: { access: token, refresh: 'r1' } })
+    mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+    const onLogin = vi.fn()
+
+    const { auth } = await installAuth({ http, storage, onLogin })
+    const result = await auth.login({ username: 'ana', password: 'secret' })
+    await new Promise((resolve) => setTimeout(resolve))
+
+    expect(result).toMatchObject({ success: true, user: { id: 1 } })
+    expect(onLogin).toHaveBeenCalledWith({ id: 1 })
+    expect(auth.hasRole('admin')).toBe(true)
+    expect(storage.getToken()).toBe(token)
+    expect(storage.getRefreshToken()).toBe('r1')
+  })
+
+  it('restaura a expiração do `expires_in` após o reload', async () => {
+    const storage = memoryStorageAdapter()
+    const { http, mock } = createMockHttp()
+    mock.on('post', '/token/', {
+      data: { access: 'opaque', refresh: 'r1', expires_in: 300 },
+    })
+    mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+
+    const first = await installAuth({ http, storage })
+    await first.auth.login({ username: 'ana', password: 'secret' })
+    const expiresAt = first.auth.expiresAt.value
+    await new Promise((resolve) => setTimeout(resolve))
+
+    const { auth } = await installAuth({ http, storage, name: 'reload' })
+
+    expect(expiresAt).toBeGreaterThan(Date.now())
+    expect(auth.expiresAt.value).toBe(expiresAt)
+  })
+
+  it('devolve a mensagem do servidor quando o login falha', async () => {
+    const { http, mock } = createMockHttp()
+    mock.on('post', '/token/', {
+      status: 400,
+      data: { detail: 'Credenciais inválidas' },
+    })
+
+    const { auth } = await installAuth({ http })
+    const result = await auth.login({ username: 'ana', password: 'x' })
+
+    expect(result).toMatchObject({
+      success: false,
+      message: 'Credenciais inválidas',
+    })
+    expect(auth.isAuthenticated.value).toBe(false)
+  })
+})
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi } from 'vitest'
+import { memoryStorageAdapter } from '../src'
+import { createMockHttp, installAuth, type MockResponder } from '../src/testing'
+
+const USER_ENDPOINT = '/contexto-inicial/'
+const REFRESH_ENDPOINT = '/token/refresh/'
+
+/**
+ * Storage com uma sessão salva (token de acesso vencido)
+ */
+function storedSession(token = 'stale', refresh = 'r1') {
+  const storage = memoryStorageAdapter()
+  storage.setToken(token)
+  storage.setRefreshToken(refresh)
+  return storage
+}
+
+/**
+ * HTTP em que apenas o token 'fresh' é aceito
+ */
+function createServer() {
+  const { http, mock } = createMockHttp()
+  const requireFresh =
+    (data: unknown): MockResponder =>
+    (config) =>
+      config.headers.Authorization === 'Bearer fresh'
+        ? { data }
+        : { status: 401, data: { code: 'token_not_valid' } }
+
+  mock.on('get', USER_ENDPOINT, requireFresh({ id: 1, name: 'Ana' }))
+  mock.on('get', '/orders/', requireFresh([{ id: 10 }]))
+
+  const refreshCalls = () =>
+    mock.history.filter((config) => config.url === REFRESH_ENDPOINT).length
+
+  return { http, mock, refreshCalls }
+}
+
+describe('interceptors', () => {
+  it('renova o token após um 401 e reenvia a requisição', async () => {
+    const { http, mock, refreshCalls } = createServer()
+    mock.on('post', REFRESH_ENDPOINT, { data: { access: 'fresh' } })
+
+    const { auth } = await installAuth({ http, storage: storedSession() })
+
+    expect(auth.isAuthenticated.value).toBe(true)
+    expect(auth.token.value).toBe('fresh')
+    expect(auth.user.value).toEqual({ id: 1, name: 'Ana' })
+    expect(refreshCalls()).toBe(1)
+  })
+
+  it('faz um único refresh para vários 401 simultâneos', async () => {
+    const { http, mock, refreshCalls } = createServer()
+    mock.on('post', REFRESH_ENDPOINT, { data: { access: 'fresh' }, delay: 10 })
+
+    const { auth } = await installAuth({ http, storage: storedSession() })
+    auth.setTokens('stale', 'r1')
+    const before = refreshCalls()
+
+    const responses = await Promise.all([
+      http.get('/orders/'),
+      http.get('/orders/'),
+      http.get('/orders/'),
+    ])
+
+    expect(responses.map((response) => response.data)).toEqual([
+      [{ id: 10 }],
+      [{ id: 10 }],
+      [{ id: 10 }],
+    ])
+    expect(refreshCalls()).toBe(before + 1)
+    expect(auth.pendingRequests.value).toBe(0)
+  })
+
+  it('encerra a sessão quando o refresh é revogado', async () => {
+    const { http, mock, refreshCalls } = createServer()
+    mock.on('post', REFRESH_ENDPOINT, {
+      status: 401,
+      data: { code: 'token_not_valid' },
+    })
+    const onSessionExpired = vi.fn()
+
+    const { auth } = await installAuth({
+      http,
+      storage: storedSession(),
+      onSessionExpired,
+    })
+
+    expect(auth.isAuthenticated.value).toBe(false)
+    expect(auth.token.value).toBeNull()
+    expect(refreshCalls()).toBe(1)
+    expect(onSessionExpired).toHaveBeenCalledTimes(1)
+    expect(onSessionExpired.mock.calls[0][0]).toMatchObject({
+      reason: 'revoked',
+      status: 401,
+    })
+  })
+
+  it('repete o refresh em erros transitórios', async () => {
+    const { http, mock, refreshCalls } = createServer()
+    mock.once('post', REFRESH_ENDPOINT, { status: 503 })
+    mock.on('post', REFRESH_ENDPOINT, { data: { access: 'fresh' } })
+
+    const { auth } = await installAuth({
+      http,
+      storage: storedSession(),
+      retryPolicy: { baseDelay: 0 },
+    })
+
+    expect(auth.isAuthenticated.value).toBe(true)
+    expect(refreshCalls()).toBe(2)
+  })
+
+  it('mantém a sessão quando o refresh fica sem conexão', async () => {
+    const { http, mock } = createServer()
+    mock.on('post', REFRESH_ENDPOINT, { networkError: true })
+    const onSessionExpired = vi.fn()
+
+    const { auth } = await installAuth({
+      http,
+      storage: storedSession(),
+      retryPolicy: { maxAttempts: 1 },
+      offline: { queueTimeout: 10 },
+      onSessionExpired,
+    })
+    auth.setTokens('stale', 'r1')
+
+    await expect(http.get('/orders/')).rejects.toMatchObject({
+      reason: 'network',
+    })
+    expect(auth.token.value).toBe('stale')
+    expect(auth.refreshToken.value).toBe('r1')
+    expect(onSessionExpired).not.toHaveBeenCalled()
+  })
+
+  it('ignora requisições marcadas para outra instância', async () => {
+    const { http, mock, refreshCalls } = createServer()
+    mock.on('post', REFRESH_ENDPOINT, { data: { access: 'fresh' } })
+
+    await installAuth({ http, storage: storedSession() })
+    const before = refreshCalls()
+
+    await expect(
+      http.get('/orders/', { authInstance: 'admin' })
+    ).rejects.toMatchObject({ response: { status: 401 } })
+    expect(refreshCalls()).toBe(before)
+  })
+
+  it('trata requisições sem marcação como da instância padrão', async () => {
+    const { http, mock, refreshCalls } = createServer()
+    mock.on('post', REFRESH_ENDPOINT, { data: { access: 'fresh' } })
+
+    const admin = await installAuth({
+      name: 'admin',
+      http,
+      storage: storedSession('admin', 'admin-r1'),
+      initialState: { user: { id: 2 }, authenticated: true },
+    })
+    const { auth } = await installAuth({ http, storage: storedSession() })
+    auth.setTokens('stale', 'r1')
+    const before = refreshCalls()
+    let sent: unknown
+    mock.once('get', '/orders/', (config) => {
+      sent = config.headers.Authorization
+      return { status: 401 }
+    })
+
+    const response = await http.get('/orders/')
+
+    expect(response.data).toEqual([{ id: 10 }])
+    expect(sent).toBe('Bearer stale')
+    expect(refreshCalls()).toBe(before + 1)
+    expect(admin.auth.token.value).toBe('admin')
+    expect(admin.auth.refreshToken.value).toBe('admin-r1')
+  })
+
+  it('trata requisições sem marcação como da dona do Axios', async () => {
+    const other = createServer()
+    other.mock.on('post', REFRESH_ENDPOINT, { data: { access: 'fresh' } })
+    await installAuth({ http: other.http, storage: storedSession() })
+    const { http, mock, refreshCalls } = createServer()
+    mock.on('post', REFRESH_ENDPOINT, { data: { access: 'fresh' } })
+    const { auth } = await installAuth({
+      name: 'partner',
+      http,
+      storage: storedSession(),
+    })
+    auth.setTokens('stale', 'r1')
+    const before = refreshCalls()
+    let sent: unknown
+    mock.once('get', '/orders/', (config) => {
+      sent = config.headers.Authorization
+      return { status: 401 }
+    })
+
+    const response = await http.get('/orders/')
+
+    expect(response.data).toEqual([{ id: 10 }])
+    expect(sent).toBe('Bearer stale')
+    expect(refreshCalls()).toBe(before + 1)
+  })
+})
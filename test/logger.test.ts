@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createLogger } from '../src/logger'
+
+/**
+ * Destino falso, com um spy por nível
+ */
+function createSink() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('logger', () => {
+  it('registra apenas a partir do nível configurado', () => {
+    const sink = createSink()
+    const logger = createLogger({ level: 'warn', logger: sink })
+
+    logger.info('info')
+    logger.warn('aviso', { attempt: 1 })
+
+    expect(sink.info).not.toHaveBeenCalled()
+    expect(sink.warn).toHaveBeenCalledWith('aviso', { attempt: 1 })
+  })
+
+  it('por padrão, registra a partir de info fora de produção', () => {
+    vi.stubEnv('NODE_ENV', 'development')
+    const sink = createSink()
+    const logger = createLogger({ logger: sink })
+
+    logger.debug('debug')
+    logger.info('info')
+
+    expect(sink.debug).not.toHaveBeenCalled()
+    expect(sink.info).toHaveBeenCalledWith('info', undefined)
+  })
+
+  it('por padrão, é silencioso em produção', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    const sink = createSink()
+    const logger = createLogger({ logger: sink })
+
+    logger.error('erro')
+
+    expect(sink.error).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { memoryStorageAdapter } from '../src'
+import { createMockHttp, installAuth } from '../src/testing'
+
+const LOGOUT_ENDPOINT = '/token/logout/'
+
+describe('logout', () => {
+  it('não aguarda a revogação no servidor', async () => {
+    const storage = memoryStorageAdapter()
+    storage.setToken('a')
+    storage.setRefreshToken('r')
+    const { http, mock } = createMockHttp()
+    mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+    mock.on('post', LOGOUT_ENDPOINT, { data: {}, delay: 1000 })
+    const { auth, router } = await installAuth({
+      http,
+      storage,
+      endpoints: { logout: LOGOUT_ENDPOINT },
+    })
+
+    const startedAt = Date.now()
+    await auth.logout()
+
+    expect(Date.now() - startedAt).toBeLessThan(500)
+    expect(auth.isAuthenticated.value).toBe(false)
+    expect(router.currentRoute.value.name).toBe('login')
+    expect(mock.history.map((config) => config.url)).toContain(LOGOUT_ENDPOINT)
+  })
+})
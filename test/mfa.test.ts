@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { memoryStorageAdapter } from '../src'
+import { createMockHttp, installAuth } from '../src/testing'
+
+/**
+ * Instala o auth com um login que exige o código `123456`
+ */
+async function setup() {
+  const { http, mock } = createMockHttp()
+  mock.on('post', '/token/', {
+    data: { mfa_required: true, challenge_id: 'c1', challenge_type: 'sms' },
+  })
+  mock.on('post', '/token/verify/', (config) =>
+    JSON.parse(config.data).code === '123456'
+      ? { data: { access: 'a', refresh: 'r' } }
+      : { status: 400, data: { detail: 'Código inválido' } }
+  )
+  mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+  const { auth } = await installAuth({
+    http,
+    storage: memoryStorageAdapter(),
+    endpoints: { verifyChallenge: '/token/verify/' },
+  })
+  const result = await auth.login({ username: 'ana', password: 'secret' })
+  return { auth, mock, result }
+}
+
+describe('MFA', () => {
+  it('retorna o desafio sem autenticar', async () => {
+    const { auth, result } = await setup()
+
+    expect(result).toMatchObject({
+      success: false,
+      challenge: { type: 'sms', id: 'c1' },
+    })
+    expect(auth.challenge.value).toEqual({ type: 'sms', id: 'c1' })
+    expect(auth.isAuthenticated.value).toBe(false)
+    expect(auth.token.value).toBeNull()
+  })
+
+  it('conclui o login com o código correto', async () => {
+    const { auth, mock } = await setup()
+
+    const result = await auth.verifyChallenge('123456')
+
+    expect(result.success).toBe(true)
+    expect(auth.isAuthenticated.value).toBe(true)
+    expect(auth.challenge.value).toBeNull()
+    const verify = mock.history.find(
+      (config) => config.url === '/token/verify/'
+    )
+    expect(JSON.parse(verify!.data)).toEqual({
+      challenge_id: 'c1',
+      code: '123456',
+    })
+  })
+
+  it('mantém o desafio quando o código é inválido', async () => {
+    const { auth } = await setup()
+
+    const result = await auth.verifyChallenge('000000')
+
+    expect(result.success).toBe(false)
+    expect(auth.challenge.value).toMatchObject({ id: 'c1' })
+    expect(auth.isAuthenticated.value).toBe(false)
+  })
+})
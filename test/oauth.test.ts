@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest'
+import { createHash } from 'node:crypto'
+import {
+  memoryStorageAdapter,
+  type KeyValueStore,
+  type OAuthOptions,
+} from '../src'
+import { createOAuthClient } from '../src/oauth'
+import { createMockHttp, createTestJwt, installAuth } from '../src/testing'
+
+const TOKEN_URL = 'https://idp.exemplo.com/token'
+const TRANSACTION_KEY = 'vue-auth:oauth'
+
+/**
+ * Store da transação em memória (sem sessionStorage nos testes)
+ */
+function createStore(): KeyValueStore {
+  const data = new Map<string, string>()
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value)
+    },
+    removeItem: (key) => {
+      data.delete(key)
+    },
+  }
+}
+
+/**
+ * Opções do provedor de teste, com o store da transação
+ */
+function createOptions() {
+  const options: OAuthOptions & { transactionStorage: KeyValueStore } = {
+    authorizeUrl: 'https://idp.exemplo.com/authorize',
+    tokenUrl: TOKEN_URL,
+    clientId: 'app',
+    redirectUri: 'http://localhost/auth/callback',
+    transactionStorage: createStore(),
+  }
+  return options
+}
+
+/**
+ * HTTP com o token endpoint de teste, que registra os corpos recebidos
+ */
+function createProvider(tokens: Record<string, unknown> = {}) {
+  const { http, mock } = createMockHttp()
+  const grants: URLSearchParams[] = []
+  mock.on('post', TOKEN_URL, (config) => {
+    grants.push(new URLSearchParams(config.data))
+    return {
+      data: { access_token: 'idp-access', refresh_token: 'idp-r1', ...tokens },
+    }
+  })
+  mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+  const tokenRequests = () =>
+    mock.history.filter((config) => config.url === TOKEN_URL)
+  return { http, mock, grants, tokenRequests }
+}
+
+describe('cliente OAuth', () => {
+  it('gera a URL com state, nonce e PKCE S256', async () => {
+    const options = createOptions()
+    const client = createOAuthClient(createMockHttp().http, options)
+
+    const url = new URL(await client.buildAuthorizeUrl())
+    const transaction = JSON.parse(
+      options.transactionStorage.getItem(TRANSACTION_KEY) as string
+    )
+
+    expect(url.searchParams.get('response_type')).toBe('code')
+    expect(url.searchParams.get('client_id')).toBe('app')
+    expect(url.searchParams.get('state')).toBe(transaction.state)
+    expect(url.searchParams.get('nonce')).toBe(transaction.nonce)
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256')
+    expect(url.searchParams.get('code_challenge')).toBe(
+      createHash('sha256').update(transaction.verifier).digest('base64url')
+    )
+  })
+
+  it('rejeita outro state e descarta a transação', async () => {
+    const options = createOptions()
+    const { http, tokenRequests } = createProvider()
+    const client = createOAuthClient(http, options)
+    const state = new URL(await client.buildAuthorizeUrl()).searchParams.get(
+      'state'
+    )
+
+    await expect(
+      client.handleCallback({ code: 'c1', state: 'forjado' })
+    ).rejects.toMatchObject({ code: 'invalid_state' })
+    await expect(
+      client.handleCallback({ code: 'c1', state })
+    ).rejects.toMatchObject({ code: 'invalid_state' })
+    expect(tokenRequests()).toHaveLength(0)
+  })
+
+  it('rejeita um id_token com outro nonce', async () => {
+    const options = createOptions()
+    const { http } = createProvider({
+      id_token: createTestJwt({ nonce: 'outro' }),
+    })
+    const client = createOAuthClient(http, options)
+    const state = new URL(await client.buildAuthorizeUrl()).searchParams.get(
+      'state'
+    )
+
+    await expect(
+      client.handleCallback({ code: 'c1', state })
+    ).rejects.toMatchObject({ code: 'invalid_nonce' })
+  })
+
+  it('converte o erro do provedor em OAuthError', async () => {
+    const client = createOAuthClient(createMockHttp().http, createOptions())
+
+    await expect(
+      client.handleCallback({ error: 'access_denied' })
+    ).rejects.toMatchObject({
+      name: 'OAuthError',
+      code: 'access_denied',
+    })
+  })
+})
+
+describe('login OAuth', () => {
+  /**
+   * Instala o auth com uma sessão do app e uma transação OAuth pendente
+   */
+  async function setup() {
+    const provider = createProvider()
+    const oauth = createOptions()
+    oauth.transactionStorage.setItem(
+      TRANSACTION_KEY,
+      JSON.stringify({
+        state: 's1',
+        nonce: 'n1',
+        verifier: 'v1',
+        createdAt: Date.now(),
+      })
+    )
+    const storage = memoryStorageAdapter()
+    storage.setToken('app-token')
+    const { auth } = await installAuth({ http: provider.http, storage, oauth })
+    return { ...provider, auth }
+  }
+
+  it('troca o código pelos tokens sem enviar os headers do app', async () => {
+    const { auth, grants, tokenRequests } = await setup()
+
+    const result = await auth.handleRedirectCallback({
+      code: 'c1',
+      state: 's1',
+    })
+
+    expect(result.success).toBe(true)
+    expect(auth.token.value).toBe('idp-access')
+    expect(Object.fromEntries(grants[0])).toEqual({
+      client_id: 'app',
+      grant_type: 'authorization_code',
+      code: 'c1',
+      redirect_uri: 'http://localhost/auth/callback',
+      code_verifier: 'v1',
+    })
+    expect(tokenRequests()[0].headers.Authorization).toBeUndefined()
+    expect(tokenRequests()[0].withCredentials).toBeFalsy()
+  })
+
+  it('renova o token com o refresh grant', async () => {
+    const { auth, grants, tokenRequests } = await setup()
+    await auth.handleRedirectCallback({ code: 'c1', state: 's1' })
+
+    await auth.refreshAccessToken()
+
+    expect(Object.fromEntries(grants[1])).toEqual({
+      client_id: 'app',
+      grant_type: 'refresh_token',
+      refresh_token: 'idp-r1',
+    })
+    expect(tokenRequests()[1].headers.Authorization).toBeUndefined()
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { memoryStorageAdapter } from '../src'
+import { createMockHttp, installAuth } from '../src/testing'
+
+const REFRESH_ENDPOINT = '/token/refresh/'
+
+/** Estado da conexão lido pelo plugin (`navigator.onLine`) */
+const connection = { onLine: true }
+
+/** Reconexões agendadas (canceladas ao fim de cada teste) */
+let timers: ReturnType<typeof setTimeout>[] = []
+
+/**
+ * Muda o estado da conexão e dispara o evento correspondente
+ */
+function setOnline(onLine: boolean) {
+  connection.onLine = onLine
+  window.dispatchEvent(new Event(onLine ? 'online' : 'offline'))
+}
+
+/**
+ * Agenda a volta da conexão
+ */
+function reconnectIn(ms: number) {
+  timers.push(setTimeout(() => setOnline(true), ms))
+}
+
+/**
+ * Instala o auth com uma sessão salva
+ */
+async function setup(
+  options: { maxAttempts?: number; maxQueueSize?: number } = {}
+) {
+  const storage = memoryStorageAdapter()
+  storage.setToken('a')
+  storage.setRefreshToken('r1')
+  const { http, mock } = createMockHttp()
+  mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+  const onSessionExpired = vi.fn()
+  const { auth } = await installAuth({
+    http,
+    storage,
+    retryPolicy: { maxAttempts: options.maxAttempts ?? 3, baseDelay: 1 },
+    offline: { queueTimeout: 200, maxQueueSize: options.maxQueueSize },
+    onSessionExpired,
+  })
+  const refreshCalls = () =>
+    mock.history.filter((config) => config.url === REFRESH_ENDPOINT).length
+  return { auth, http, mock, refreshCalls, onSessionExpired }
+}
+
+beforeEach(() => {
+  connection.onLine = true
+  vi.stubGlobal('window', new EventTarget())
+  vi.stubGlobal('navigator', connection)
+})
+
+afterEach(() => {
+  timers.forEach(clearTimeout)
+  timers = []
+  vi.unstubAllGlobals()
+})
+
+describe('sem conexão', () => {
+  it('retém as requisições com 401 até a conexão voltar', async () => {
+    const { auth, http, mock, refreshCalls } = await setup()
+    mock.on('post', REFRESH_ENDPOINT, { data: { access: 'fresh' } })
+    mock.on('get', '/orders/', (config) =>
+      config.headers.Authorization === 'Bearer fresh'
+        ? { data: [{ id: 10 }] }
+        : { status: 401 }
+    )
+    setOnline(false)
+
+    const requests = Promise.all([http.get('/orders/'), http.get('/orders/')])
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    expect(auth.isOnline.value).toBe(false)
+    expect(auth.pendingRequests.value).toBe(2)
+    expect(refreshCalls()).toBe(0)
+
+    setOnline(true)
+    const responses = await requests
+
+    expect(responses.map((response) => response.data)).toEqual([
+      [{ id: 10 }],
+      [{ id: 10 }],
+    ])
+    expect(refreshCalls()).toBe(1)
+    expect(auth.pendingRequests.value).toBe(0)
+  })
+
+  it('mantém a sessão se a conexão não voltar a tempo', async () => {
+    const { auth, refreshCalls, onSessionExpired } = await setup()
+    setOnline(false)
+
+    await expect(auth.refreshAccessToken()).rejects.toMatchObject({
+      reason: 'network',
+    })
+
+    expect(refreshCalls()).toBe(0)
+    expect(auth.token.value).toBe('a')
+    expect(onSessionExpired).not.toHaveBeenCalled()
+  })
+
+  it('rejeita as requisições além do tamanho da fila', async () => {
+    const { http, mock } = await setup({ maxQueueSize: 1 })
+    mock.on('get', '/orders/', { status: 401 })
+    setOnline(false)
+
+    const first = http.get('/orders/')
+    const second = http.get('/orders/')
+    const third = http.get('/orders/')
+
+    await expect(third).rejects.toThrow('Too many requests')
+    await expect(first).rejects.toMatchObject({ reason: 'network' })
+    await expect(second).rejects.toMatchObject({ reason: 'network' })
+  })
+
+  it('conta as quedas de conexão como tentativas do refresh', async () => {
+    const { auth, mock, refreshCalls, onSessionExpired } = await setup()
+    // A conexão cai a cada tentativa e volta logo em seguida
+    mock.on('post', REFRESH_ENDPOINT, () => {
+      connection.onLine = false
+      reconnectIn(5)
+      return { networkError: true }
+    })
+
+    await expect(auth.refreshAccessToken()).rejects.toMatchObject({
+      reason: 'network',
+    })
+
+    expect(refreshCalls()).toBe(3)
+    expect(auth.refreshToken.value).toBe('r1')
+    expect(onSessionExpired).not.toHaveBeenCalled()
+  })
+})
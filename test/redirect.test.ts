@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { memoryStorageAdapter, sanitizeRedirect } from '../src'
+import { createReturnTo } from '../src/redirect'
+import { createMockHttp, installAuth, navigate } from '../src/testing'
+
+/**
+ * Instala o auth com login concluído pela resposta do mock
+ */
+async function setup() {
+  const { http, mock } = createMockHttp()
+  mock.on('post', '/token/', { data: { access: 'a', refresh: 'r' } })
+  mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+  return installAuth({ http, storage: memoryStorageAdapter() })
+}
+
+describe('sanitizeRedirect', () => {
+  it('aceita caminhos relativos à raiz', () => {
+    expect(sanitizeRedirect('/orders/1?tab=items#notes')).toBe(
+      '/orders/1?tab=items#notes'
+    )
+  })
+
+  it.each([
+    'https://evil.com',
+    '//evil.com',
+    '/\\evil.com',
+    'javascript:alert(1)',
+    'orders',
+    '/orders\n',
+    '',
+    null,
+  ])('rejeita %s', (target) => {
+    expect(sanitizeRedirect(target)).toBeNull()
+  })
+
+  it('aceita apenas as origens externas permitidas', () => {
+    const allowed = ['https://admin.exemplo.com']
+    expect(sanitizeRedirect('https://admin.exemplo.com/x', allowed)).toBe(
+      'https://admin.exemplo.com/x'
+    )
+    expect(sanitizeRedirect('https://exemplo.com/x', allowed)).toBeNull()
+  })
+})
+
+describe('createReturnTo', () => {
+  it('prefere o candidato seguro e descarta o destino salvo', async () => {
+    const returnTo = createReturnTo()
+    await returnTo.save('/saved')
+
+    expect(await returnTo.resolve('/query')).toBe('/query')
+    expect(await returnTo.resolve()).toBeNull()
+  })
+
+  it('usa o destino salvo quando o candidato não é seguro', async () => {
+    const returnTo = createReturnTo()
+    await returnTo.save('/saved')
+
+    expect(await returnTo.resolve('https://evil.com')).toBe('/saved')
+  })
+
+  it('ignora destinos salvos vencidos ou excluídos', async () => {
+    const expired = createReturnTo({ ttl: -1 })
+    await expired.save('/saved')
+    expect(await expired.resolve()).toBeNull()
+
+    const excluded = createReturnTo({ exclude: (path) => path === '/login' })
+    expect(await excluded.resolve('/login')).toBeNull()
+  })
+})
+
+describe('redirectAfterLogin', () => {
+  it('volta para o destino guardado pelo guard, com query e hash', async () => {
+    const { auth, router } = await setup()
+
+    await navigate(router, '/private?tab=2#top')
+    expect(router.currentRoute.value.name).toBe('login')
+
+    await auth.login({ username: 'ana', password: 'secret' })
+    await auth.redirectAfterLogin()
+
+    expect(router.currentRoute.value.fullPath).toBe('/private?tab=2#top')
+  })
+
+  it('sobrevive à perda da query (reload ou redirect externo)', async () => {
+    const { auth, router } = await setup()
+
+    await navigate(router, '/private')
+    await navigate(router, '/login')
+
+    await auth.login({ username: 'ana', password: 'secret' })
+    await auth.redirectAfterLogin()
+
+    expect(router.currentRoute.value.fullPath).toBe('/private')
+  })
+
+  it('ignora destinos externos e usa o defaultRedirect', async () => {
+    const { auth, router } = await setup()
+
+    await navigate(router, '/login?redirect=https://evil.com')
+    await auth.login({ username: 'ana', password: 'secret' })
+    await auth.redirectAfterLogin()
+
+    expect(router.currentRoute.value.fullPath).toBe('/')
+  })
+
+  it('valida a query.redirect com o usuário autenticado', async () => {
+    const { auth, router } = await setup()
+    await auth.login({ username: 'ana', password: 'secret' })
+
+    const { route } = await navigate(router, '/login?redirect=//evil.com')
+    expect(route.fullPath).toBe('/')
+
+    const allowed = await navigate(router, '/login?redirect=%2Fprivate%3Fa%3D1')
+    expect(allowed.route.fullPath).toBe('/private?a=1')
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { memoryStorageAdapter } from '../src'
+import { createMockHttp, installAuth } from '../src/testing'
+
+/**
+ * Instala o auth com os dois storages em memória e o login pelo mock
+ */
+async function setup() {
+  const storage = memoryStorageAdapter()
+  const sessionOnlyStorage = memoryStorageAdapter()
+  const { http, mock } = createMockHttp()
+  mock.on('post', '/token/', { data: { access: 'a', refresh: 'r' } })
+  mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+  const { auth } = await installAuth({ http, storage, sessionOnlyStorage })
+  return { auth, http, storage, sessionOnlyStorage }
+}
+
+/**
+ * Aguarda as escritas em fila no storage
+ */
+const flushWrites = () => new Promise((resolve) => setTimeout(resolve))
+
+describe('lembrar de mim', () => {
+  it('por padrão, salva os tokens no storage persistente', async () => {
+    const { auth, storage, sessionOnlyStorage } = await setup()
+
+    await auth.login({ username: 'ana', password: 'secret' })
+    await flushWrites()
+
+    expect(storage.getToken()).toBe('a')
+    expect(storage.getItem!('remember')).toBeNull()
+    expect(sessionOnlyStorage.getToken()).toBeNull()
+  })
+
+  it('com `remember: false`, usa apenas o storage da sessão', async () => {
+    const { auth, storage, sessionOnlyStorage } = await setup()
+
+    await auth.login(
+      { username: 'ana', password: 'secret' },
+      { remember: false }
+    )
+    await flushWrites()
+
+    expect(sessionOnlyStorage.getToken()).toBe('a')
+    expect(sessionOnlyStorage.getRefreshToken()).toBe('r')
+    expect(storage.getToken()).toBeNull()
+    expect(storage.getItem!('remember')).toBe('false')
+  })
+
+  it('ao trocar a escolha, remove os tokens do outro storage', async () => {
+    const { auth, storage, sessionOnlyStorage } = await setup()
+    const credentials = { username: 'ana', password: 'secret' }
+
+    await auth.login(credentials, { remember: false })
+    await auth.login(credentials, { remember: true })
+    await flushWrites()
+
+    expect(storage.getToken()).toBe('a')
+    expect(storage.getItem!('remember')).toBeNull()
+    expect(sessionOnlyStorage.getToken()).toBeNull()
+    expect(sessionOnlyStorage.getRefreshToken()).toBeNull()
+  })
+
+  it('hidrata a sessão a partir do storage escolhido', async () => {
+    const storage = memoryStorageAdapter()
+    const sessionOnlyStorage = memoryStorageAdapter()
+    storage.setItem!('remember', 'false')
+    storage.setToken('persistent')
+    sessionOnlyStorage.setToken('session')
+    sessionOnlyStorage.setRefreshToken('refresh')
+    const { http, mock } = createMockHttp()
+    mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+
+    const { auth } = await installAuth({ http, storage, sessionOnlyStorage })
+
+    expect(auth.isAuthenticated.value).toBe(true)
+    expect(mock.history[0].headers.Authorization).toBe('Bearer session')
+  })
+})
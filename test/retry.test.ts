@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AxiosError, AxiosHeaders } from 'axios'
+import { memoryStorageAdapter, type RetryPolicyOptions } from '../src'
+import { createRetryPolicy } from '../src/retry'
+import { createMockHttp, installAuth, type MockResponse } from '../src/testing'
+
+const REFRESH_ENDPOINT = '/token/refresh/'
+
+/**
+ * Erro do Axios com o status informado (sem status: falha de rede)
+ */
+function httpError(status?: number) {
+  const config = { headers: new AxiosHeaders() }
+  const response = status
+    ? { status, statusText: '', headers: {}, config, data: null }
+    : undefined
+  return new AxiosError('falhou', undefined, config, null, response)
+}
+
+/**
+ * Instala o auth com uma sessão salva e o refresh respondendo `responses`
+ * em ordem (a última se repete)
+ */
+async function setup(
+  responses: MockResponse[],
+  retryPolicy: RetryPolicyOptions = {}
+) {
+  const storage = memoryStorageAdapter()
+  storage.setToken('a')
+  storage.setRefreshToken('r1')
+  const { http, mock } = createMockHttp()
+  mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+  responses
+    .slice(0, -1)
+    .forEach((response) => mock.once('post', REFRESH_ENDPOINT, response))
+  mock.on('post', REFRESH_ENDPOINT, responses[responses.length - 1])
+  const onSessionExpired = vi.fn()
+  const { auth } = await installAuth({
+    http,
+    storage,
+    retryPolicy: { baseDelay: 1, ...retryPolicy },
+    onSessionExpired,
+  })
+  const refreshCalls = () =>
+    mock.history.filter((config) => config.url === REFRESH_ENDPOINT).length
+  return { auth, refreshCalls, onSessionExpired }
+}
+
+describe('política de retentativas', () => {
+  it('repete apenas erros de rede e status transitórios', () => {
+    const policy = createRetryPolicy()
+
+    expect(policy.isRetryable(httpError())).toBe(true)
+    expect(policy.isRetryable(httpError(503))).toBe(true)
+    expect(policy.isRetryable(httpError(429))).toBe(true)
+    expect(policy.isRetryable(httpError(400))).toBe(false)
+    expect(policy.isRetryable(new Error('outro'))).toBe(false)
+  })
+
+  it('respeita os status e a opção de erros de rede configurados', () => {
+    const policy = createRetryPolicy({
+      retryableStatuses: [418],
+      retryOnNetworkError: false,
+    })
+
+    expect(policy.isRetryable(httpError(418))).toBe(true)
+    expect(policy.isRetryable(httpError(503))).toBe(false)
+    expect(policy.isRetryable(httpError())).toBe(false)
+  })
+
+  it('aumenta a espera exponencialmente até o `maxDelay`', () => {
+    const policy = createRetryPolicy({
+      baseDelay: 100,
+      maxDelay: 500,
+      jitter: false,
+    })
+
+    expect([1, 2, 3, 4].map(policy.delay)).toEqual([100, 200, 400, 500])
+  })
+
+  it('espalha a espera com jitter', () => {
+    const policy = createRetryPolicy({ baseDelay: 100, jitter: 0.5 })
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+
+    expect(policy.delay(1)).toBe(50)
+    vi.restoreAllMocks()
+  })
+
+  it('usa `maxRetries` quando `maxAttempts` não é informado', () => {
+    expect(createRetryPolicy({}, 5).maxAttempts).toBe(5)
+    expect(createRetryPolicy({ maxAttempts: 0 }).maxAttempts).toBe(1)
+  })
+})
+
+describe('retentativas do refresh', () => {
+  it('renova o token após erros transitórios', async () => {
+    const { auth, refreshCalls } = await setup([
+      { status: 503 },
+      { status: 429 },
+      { data: { access: 'b' } },
+    ])
+
+    await expect(auth.refreshAccessToken()).resolves.toBe('b')
+    expect(refreshCalls()).toBe(3)
+  })
+
+  it('não repete erros não transitórios', async () => {
+    const { auth, refreshCalls, onSessionExpired } = await setup([
+      { status: 403 },
+    ])
+
+    await expect(auth.refreshAccessToken()).rejects.toMatchObject({
+      reason: 'rejected',
+      status: 403,
+    })
+    expect(refreshCalls()).toBe(1)
+    expect(onSessionExpired).toHaveBeenCalledTimes(1)
+    expect(auth.isAuthenticated.value).toBe(false)
+  })
+
+  it('desiste após `maxAttempts`', async () => {
+    const { auth, refreshCalls, onSessionExpired } = await setup(
+      [{ status: 503 }],
+      { maxAttempts: 2 }
+    )
+
+    await expect(auth.refreshAccessToken()).rejects.toMatchObject({
+      reason: 'exhausted',
+      status: 503,
+    })
+    expect(refreshCalls()).toBe(2)
+    expect(onSessionExpired.mock.calls[0][0]).toMatchObject({
+      reason: 'exhausted',
+    })
+  })
+
+  it('desiste quando a próxima espera passa do `maxElapsedTime`', async () => {
+    const { auth, refreshCalls } = await setup([{ status: 503 }], {
+      baseDelay: 50,
+      jitter: false,
+      maxElapsedTime: 20,
+    })
+
+    await expect(auth.refreshAccessToken()).rejects.toMatchObject({
+      reason: 'exhausted',
+    })
+    expect(refreshCalls()).toBe(1)
+  })
+})
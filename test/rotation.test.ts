@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest'
+import { memoryStorageAdapter } from '../src'
+import { createMockHttp, installAuth, type MockResponder } from '../src/testing'
+
+const REFRESH_ENDPOINT = '/token/refresh/'
+
+/**
+ * Instala o auth com uma sessão salva e o refresh respondido por `refresh`
+ */
+async function setup(refresh: MockResponder) {
+  const storage = memoryStorageAdapter()
+  storage.setToken('a')
+  storage.setRefreshToken('r1')
+  const { http, mock } = createMockHttp()
+  mock.on('get', '/contexto-inicial/', { data: { id: 1 } })
+  mock.on('post', REFRESH_ENDPOINT, refresh)
+  const onSessionExpired = vi.fn()
+  const { auth } = await installAuth({ http, storage, onSessionExpired })
+  return { auth, storage, onSessionExpired }
+}
+
+/**
+ * Aguarda as escritas em fila no storage
+ */
+const flushWrites = () => new Promise((resolve) => setTimeout(resolve))
+
+describe('rotação do refresh token', () => {
+  it('usa o refresh token rotacionado no próximo refresh', async () => {
+    const sent: string[] = []
+    const { auth, storage } = await setup((config) => {
+      const { refresh } = JSON.parse(config.data)
+      sent.push(refresh)
+      return { data: { access: `a-${refresh}`, refresh: `${refresh}+` } }
+    })
+
+    await auth.refreshAccessToken()
+    await auth.refreshAccessToken()
+    await flushWrites()
+
+    expect(sent).toEqual(['r1', 'r1+'])
+    expect(auth.refreshToken.value).toBe('r1++')
+    expect(storage.getRefreshToken()).toBe('r1++')
+  })
+
+  it('mantém o refresh token quando o servidor não rotaciona', async () => {
+    const { auth } = await setup(() => ({ data: { access: 'b' } }))
+
+    await auth.refreshAccessToken()
+
+    expect(auth.token.value).toBe('b')
+    expect(auth.refreshToken.value).toBe('r1')
+  })
+
+  it('adota os tokens rotacionados por outra aba no reuso', async () => {
+    const { auth, storage, onSessionExpired } = await setup(() => {
+      // Outra aba rotacionou o token enquanto esta enviava o antigo
+      storage.setToken('b')
+      storage.setRefreshToken('r2')
+      return { status: 401, data: { code: 'token_not_valid' } }
+    })
+
+    await expect(auth.refreshAccessToken()).resolves.toBe('b')
+
+    expect(auth.refreshToken.value).toBe('r2')
+    expect(auth.isAuthenticated.value).toBe(true)
+    expect(onSessionExpired).not.toHaveBeenCalled()
+  })
+
+  it('encerra a sessão no reuso sem tokens novos', async () => {
+    const { auth, onSessionExpired } = await setup(() => ({
+      status: 401,
+      data: { code: 'token_not_valid' },
+    }))
+
+    await expect(auth.refreshAccessToken()).rejects.toMatchObject({
+      reason: 'revoked',
+    })
+
+    expect(auth.token.value).toBeNull()
+    expect(onSessionExpired).toHaveBeenCalledTimes(1)
+  })
+})
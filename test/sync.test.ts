@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createTabSync } from '../src/sync'
+import { createMockHttp, installAuth } from '../src/testing'
+
+/**
+ * localStorage compartilhado entre as "abas" do teste
+ */
+function createLocalStorage() {
+  const data = new Map<string, string>()
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      data.set(key, value)
+    },
+    removeItem: (key: string) => {
+      data.delete(key)
+    },
+  }
+}
+
+beforeEach(() => {
+  vi.stubGlobal('window', {
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+  })
+  vi.stubGlobal('localStorage', createLocalStorage())
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('sincronização entre abas', () => {
+  it('sem Web Locks, apenas uma aba executa o refresh por vez', async () => {
+    vi.stubGlobal('BroadcastChannel', undefined)
+    const tabs = [1, 2, 3].map(() =>
+      createTabSync({ channel: 'vue-auth', onMessage: vi.fn() })
+    )
+    let running = 0
+    let overlapped = false
+    const task = async () => {
+      running++
+      overlapped ||= running > 1
+      await new Promise((resolve) => setTimeout(resolve, 30))
+      running--
+    }
+
+    await Promise.all(tabs.map((tab) => tab!.runExclusive(task)))
+
+    expect(overlapped).toBe(false)
+    expect(localStorage.getItem('vue-auth:refresh')).toBeNull()
+  })
+
+  it('fecha o canal ao encerrar a instância (unmount do app)', async () => {
+    const close = vi.fn()
+    vi.stubGlobal(
+      'BroadcastChannel',
+      class {
+        onmessage = null
+        postMessage = vi.fn()
+        close = close
+      }
+    )
+    const { auth } = await installAuth({
+      http: createMockHttp().http,
+      syncTabs: true,
+    })
+
+    auth._dispose!()
+
+    expect(close).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createApp } from 'vue'
+import { useAuth } from '../src'
+import { createMockAuth } from '../src/testing'
+
+describe('createMockAuth', () => {
+  it('é injetado para o useAuth()', () => {
+    const auth = createMockAuth({ user: { id: 1 }, roles: ['admin'] })
+    const app = createApp({ render: () => null }).use(auth)
+
+    const injected = app.runWithContext(() => useAuth())
+
+    expect(injected).toBe(auth)
+    expect(injected.isAuthenticated.value).toBe(true)
+    expect(injected.hasRole('admin')).toBe(true)
+  })
+
+  it('expõe estado editável e reativo', () => {
+    const auth = createMockAuth({ user: { id: 1 }, permissions: ['a'] })
+
+    auth.state.authenticated.value = false
+
+    expect(auth.isAuthenticated.value).toBe(false)
+    expect(auth.permissions.value).toEqual([])
+    expect(auth.can('a')).toBe(false)
+  })
+
+  it('aceita métodos substituídos e emite eventos', async () => {
+    const login = vi.fn(async () => ({ success: false, message: 'Erro' }))
+    const auth = createMockAuth({ login })
+    const onLogout = vi.fn()
+    auth.on('logout', onLogout)
+
+    expect(await auth.login({})).toEqual({ success: false, message: 'Erro' })
+    await auth.logout({ reason: 'user' })
+
+    expect(login).toHaveBeenCalledTimes(1)
+    expect(onLogout).toHaveBeenCalledWith({ reason: 'user' })
+  })
+})
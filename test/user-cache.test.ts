@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { memoryStorageAdapter, type UserCacheOptions } from '../src'
+import {
+  createMockHttp,
+  createTestJwt,
+  installAuth,
+  navigate,
+  type MockResponse,
+} from '../src/testing'
+
+const token = createTestJwt({ sub: '1', exp: 4102444800 })
+
+/**
+ * Instala o auth com um token salvo e, opcionalmente, um usuário em cache
+ */
+async function setup(
+  cached: Record<string, unknown> | null,
+  response: MockResponse = { data: { id: 1, name: 'Ana' }, delay: 20 },
+  userCache: boolean | UserCacheOptions = true
+) {
+  const storage = memoryStorageAdapter()
+  storage.setToken(token)
+  if (cached) {
+    storage.setItem!(
+      'user',
+      JSON.stringify({
+        version: 1,
+        subject: '1',
+        savedAt: Date.now(),
+        user: { id: 1, name: 'Ana (cache)' },
+        ...cached,
+      })
+    )
+  }
+  const { http, mock } = createMockHttp()
+  mock.on('get', '/contexto-inicial/', response)
+  const { auth, router } = await installAuth({ http, storage, userCache })
+  return { auth, router, storage }
+}
+
+/**
+ * Aguarda a revalidação em segundo plano (resposta com `delay: 20`)
+ */
+const waitRevalidation = () => new Promise((resolve) => setTimeout(resolve, 40))
+
+describe('cache do usuário', () => {
+  it('usa o usuário em cache e revalida em segundo plano', async () => {
+    const { auth, storage } = await setup({})
+
+    expect(auth.loading.value).toBe(false)
+    expect(auth.isAuthenticated.value).toBe(true)
+    expect(auth.user.value).toEqual({ id: 1, name: 'Ana (cache)' })
+
+    await waitRevalidation()
+
+    expect(auth.user.value).toEqual({ id: 1, name: 'Ana' })
+    const entry = JSON.parse(storage.getItem!('user') as string)
+    expect(entry).toMatchObject({ subject: '1', user: { name: 'Ana' } })
+  })
+
+  it.each([
+    ['de outra versão', { version: 0 }],
+    ['de outro usuário', { subject: '2' }],
+    ['vencido', { savedAt: Date.now() - 25 * 60 * 60 * 1000 }],
+  ])('ignora o cache %s', async (_, cached) => {
+    const { auth } = await setup(cached)
+
+    expect(auth.user.value).toEqual({ id: 1, name: 'Ana' })
+  })
+
+  it('não usa o cache com tokens opacos', async () => {
+    const storage = memoryStorageAdapter()
+    storage.setToken('opaco')
+    storage.setItem!(
+      'user',
+      JSON.stringify({
+        version: 1,
+        subject: null,
+        savedAt: Date.now(),
+        user: { id: 2, name: 'Bruno' },
+      })
+    )
+    const { http, mock } = createMockHttp()
+    mock.on('get', '/contexto-inicial/', { data: { id: 1, name: 'Ana' } })
+
+    const { auth } = await installAuth({ http, storage, userCache: true })
+
+    expect(auth.user.value).toEqual({ id: 1, name: 'Ana' })
+    expect(storage.getItem!('user')).toBeNull()
+  })
+
+  it('é opt-in', async () => {
+    const { auth } = await setup({}, undefined, false)
+
+    expect(auth.user.value).toEqual({ id: 1, name: 'Ana' })
+  })
+
+  it('encerra a sessão se a revalidação falhar', async () => {
+    const { auth, router, storage } = await setup(
+      {},
+      { status: 403, delay: 20 }
+    )
+
+    await navigate(router, '/private')
+    expect(router.currentRoute.value.path).toBe('/private')
+
+    await waitRevalidation()
+
+    expect(auth.isAuthenticated.value).toBe(false)
+    expect(storage.getItem!('user')).toBeNull()
+    expect(router.currentRoute.value.name).toBe('login')
+  })
+
+  it('remove o cache no logout', async () => {
+    const { auth, storage } = await setup(null, { data: { id: 1 } })
+    expect(storage.getItem!('user')).not.toBeNull()
+
+    await auth.logout()
+    await waitRevalidation()
+
+    expect(storage.getItem!('user')).toBeNull()
+  })
+})